@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  /** `style` (default), `mgrs` or `local` */
+  readonly VITE_GRID_PROVIDER?: 'style' | 'mgrs' | 'local';
+  /** URL of the PMTiles or GeoJSON grid of the `local` grid provider */
+  readonly VITE_GRID_URL?: string;
+  /** Vector tile layer with the grid cells in PMTiles grids */
+  readonly VITE_GRID_LAYER?: string;
+}
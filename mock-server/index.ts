@@ -0,0 +1,9 @@
+import { createMockServer } from './server';
+
+const port = Number(process.env.PORT ?? 8080);
+const token = process.env.MOCK_API_TOKEN ?? 'dev-token';
+
+createMockServer({ token }).listen(port, '127.0.0.1', () => {
+  console.log(`Mock FTW API listening on http://127.0.0.1:${port}/v1/`);
+  console.log(`Use the API token "${token}"`);
+});
@@ -0,0 +1,111 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+
+/**
+ * In-memory implementation of the FTW submission API for local development
+ * and tests. Submissions are kept until the process exits.
+ */
+export interface MockServerOptions {
+  /** Bearer token the server accepts */
+  token: string;
+  /** Path prefix of the API, matching the path of `VITE_API_BASE_URL` */
+  prefix?: string;
+}
+
+interface StoredSubmission {
+  grid_cell_id: string;
+  version: number;
+  submitted_at: string;
+  metadata: unknown;
+  features: unknown;
+}
+
+const SUBMISSIONS_PATH = /^grid-cells\/([^/]+)\/submissions(\/latest)?$/;
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+export function createMockServer({ token, prefix = '/v1/' }: MockServerOptions) {
+  const submissions = new Map<string, StoredSubmission[]>();
+  /** Responses by idempotency key, so retried POSTs do not add versions */
+  const responses = new Map<string, StoredSubmission>();
+
+  function info({ grid_cell_id, version, submitted_at }: StoredSubmission) {
+    return { grid_cell_id, version, submitted_at };
+  }
+
+  async function submit(req: IncomingMessage, res: ServerResponse, gridCellId: string) {
+    const key = req.headers['idempotency-key'];
+    const previous = typeof key === 'string' ? responses.get(key) : undefined;
+    if (previous) return send(res, 201, info(previous));
+
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { message: 'Request body is not valid JSON' });
+    }
+    if (body?.features?.type !== 'FeatureCollection' || !('base_version' in body)) {
+      return send(res, 400, { message: 'Expected base_version, metadata and features' });
+    }
+
+    const versions = submissions.get(gridCellId) ?? [];
+    const latest = versions[versions.length - 1]?.version ?? null;
+    if (body.base_version !== latest) {
+      return send(res, 409, {
+        message: `Grid cell ${gridCellId} was submitted since version ${body.base_version ?? 'none'}`,
+        latest_version: latest,
+      });
+    }
+
+    const submission: StoredSubmission = {
+      grid_cell_id: gridCellId,
+      version: (latest ?? 0) + 1,
+      submitted_at: new Date().toISOString(),
+      metadata: body.metadata,
+      features: body.features,
+    };
+    submissions.set(gridCellId, [...versions, submission]);
+    if (typeof key === 'string') responses.set(key, submission);
+    send(res, 201, info(submission));
+  }
+
+  return createServer((req, res) => {
+    // The app runs on another origin during development
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Idempotency-Key');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const match = pathname.startsWith(prefix)
+      ? SUBMISSIONS_PATH.exec(pathname.slice(prefix.length))
+      : null;
+    if (!match) return send(res, 404, { message: 'Not found' });
+
+    if (req.headers.authorization !== `Bearer ${token}`) {
+      return send(res, 401, { message: 'Missing or invalid API token' });
+    }
+
+    const gridCellId = decodeURIComponent(match[1]!);
+    if (match[2] && req.method === 'GET') {
+      const versions = submissions.get(gridCellId) ?? [];
+      const latest = versions[versions.length - 1];
+      return latest
+        ? send(res, 200, latest)
+        : send(res, 404, { message: `Grid cell ${gridCellId} has not been submitted` });
+    }
+    if (!match[2] && req.method === 'POST') {
+      submit(req, res, gridCellId).catch(() => send(res, 500, { message: 'Internal error' }));
+      return;
+    }
+    send(res, 405, { message: 'Method not allowed' });
+  });
+}
@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { AuthError, ConflictError, createApiClient, type SubmissionRequest } from '@/api';
+import { createMockServer } from '../../../mock-server/server';
+
+const TOKEN = 'test-token';
+
+function submission(baseVersion: number | null, name = 'field'): SubmissionRequest {
+  return {
+    base_version: baseVersion,
+    metadata: { feature_count: 1, total_area: 1, grid: 'test', created_at: '2025-01-01T00:00:00Z' },
+    features: {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: {
+            type: 'Polygon',
+            coordinates: [
+              [
+                [0, 0],
+                [0, 0.01],
+                [0.01, 0.01],
+                [0, 0],
+              ],
+            ],
+          },
+          properties: {
+            id: 'ftw-33UUU9016-1',
+            area: 1,
+            perimeter: 400,
+            determination_datetime: '2025-01-01T00:00:00Z',
+            determination_method: 'manual',
+            grid_cell_id: 'ftw-33UUU9016',
+            name,
+          },
+        },
+      ],
+    },
+  };
+}
+
+describe('createApiClient', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createMockServer({ token: TOKEN });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('submits a cell and loads it back', async () => {
+    const client = createApiClient({ baseUrl, token: () => TOKEN });
+
+    expect(await client.latestSubmission('ftw-33UUU9016')).toBeUndefined();
+    const first = await client.submitCell('ftw-33UUU9016', submission(null));
+    const second = await client.submitCell('ftw-33UUU9016', submission(first.version, 'edited'));
+    const latest = await client.latestSubmission('ftw-33UUU9016');
+
+    expect(first.version).toBe(1);
+    expect(second.version).toBe(2);
+    expect(latest?.version).toBe(2);
+    expect(latest?.features.features[0]?.properties.name).toBe('edited');
+  });
+
+  it('reports conflicts with the latest version', async () => {
+    const client = createApiClient({ baseUrl, token: () => TOKEN });
+    await client.submitCell('ftw-33UUU9018', submission(null));
+
+    const error = await client.submitCell('ftw-33UUU9018', submission(null)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.latestVersion).toBe(1);
+  });
+
+  it('rejects missing and invalid tokens', async () => {
+    const anonymous = createApiClient({ baseUrl });
+    const invalid = createApiClient({ baseUrl, token: () => 'wrong' });
+
+    await expect(anonymous.latestSubmission('ftw-33UUU9016')).rejects.toThrow(AuthError);
+    await expect(invalid.submitCell('ftw-33UUU9016', submission(2))).rejects.toThrow(AuthError);
+  });
+
+  it('retries server errors without submitting twice', async () => {
+    let failures = 2;
+    const fetchFn = vi.fn(async (...args: Parameters<typeof fetch>) => {
+      const response = await fetch(...args);
+      // The server stored the submission, but the response got lost
+      if (failures-- > 0) return new Response(null, { status: 503 });
+      return response;
+    });
+    const client = createApiClient({ baseUrl, token: () => TOKEN, retryDelay: 1, fetch: fetchFn });
+
+    const info = await client.submitCell('ftw-33UUU9216', submission(null));
+
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    expect(info.version).toBe(1);
+    expect((await client.latestSubmission('ftw-33UUU9216'))?.version).toBe(1);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const fetchFn = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+    const client = createApiClient({ baseUrl, retries: 2, retryDelay: 1, fetch: fetchFn });
+
+    await expect(client.latestSubmission('ftw-33UUU9016')).rejects.toThrow(/fetch failed/);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,152 @@
+import type {
+  ConflictResponse,
+  ErrorResponse,
+  Submission,
+  SubmissionInfo,
+  SubmissionRequest,
+} from './types';
+
+export class ApiError extends Error {
+  status?: number;
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/** The token is missing, invalid or lacks permission to submit */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+/** The cell was submitted since the version the edits are based on */
+export class ConflictError extends ApiError {
+  latestVersion: number;
+  constructor(message: string, latestVersion: number) {
+    super(message, 409);
+    this.name = 'ConflictError';
+    this.latestVersion = latestVersion;
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  /** Read on every request, so a changed token applies without a new client */
+  token?: () => string | undefined;
+  /** Retries after network errors, rate limiting and server errors */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for every further retry */
+  retryDelay?: number;
+  fetch?: typeof fetch;
+}
+
+export interface ApiClient {
+  submitCell(gridCellId: string, request: SubmissionRequest): Promise<SubmissionInfo>;
+  /** Resolves undefined if the cell has not been submitted yet */
+  latestSubmission(gridCellId: string): Promise<Submission | undefined>;
+}
+
+const RETRY_STATUS = [408, 429, 500, 502, 503, 504];
+/** Upper bound for server-requested delays, so the UI never hangs for long */
+const MAX_RETRY_AFTER = 30000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function retryAfter(response: Response) {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0
+    ? Math.min(seconds * 1000, MAX_RETRY_AFTER)
+    : undefined;
+}
+
+async function errorMessage(response: Response) {
+  try {
+    const body = (await response.json()) as ErrorResponse;
+    if (body.message) return body.message;
+  } catch {
+    // Not a JSON error body
+  }
+  return response.statusText || `HTTP ${response.status}`;
+}
+
+/**
+ * Client for the submission API of the FTW backend, see `./types` for the
+ * endpoints.
+ */
+export function createApiClient({
+  baseUrl,
+  token,
+  retries = 3,
+  retryDelay = 1000,
+  fetch: fetchFn = globalThis.fetch.bind(globalThis),
+}: ApiClientOptions): ApiClient {
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+  async function request(path: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    headers.set('Accept', 'application/json');
+    const value = token?.();
+    if (value) headers.set('Authorization', `Bearer ${value}`);
+
+    for (let attempt = 0; ; ++attempt) {
+      const delay = retryDelay * 2 ** attempt;
+      let response: Response;
+      try {
+        response = await fetchFn(new URL(path, base), { ...init, headers });
+      } catch (error) {
+        if (attempt >= retries) {
+          throw new ApiError(`Could not reach the server: ${(error as Error).message}`);
+        }
+        await sleep(delay);
+        continue;
+      }
+      if (RETRY_STATUS.includes(response.status) && attempt < retries) {
+        await sleep(retryAfter(response) ?? delay);
+        continue;
+      }
+      if (response.status === 401 || response.status === 403) {
+        throw new AuthError(await errorMessage(response), response.status);
+      }
+      return response;
+    }
+  }
+
+  async function submitCell(gridCellId: string, body: SubmissionRequest) {
+    const response = await request(`grid-cells/${encodeURIComponent(gridCellId)}/submissions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Same key for all retries, so the server stores the submission once
+        'Idempotency-Key': crypto.randomUUID(),
+      },
+      body: JSON.stringify(body),
+    });
+    if (response.status === 409) {
+      const conflict = (await response.json()) as ConflictResponse;
+      throw new ConflictError(conflict.message, conflict.latest_version);
+    }
+    if (!response.ok) {
+      throw new ApiError(await errorMessage(response), response.status);
+    }
+    return (await response.json()) as SubmissionInfo;
+  }
+
+  async function latestSubmission(gridCellId: string) {
+    const response = await request(
+      `grid-cells/${encodeURIComponent(gridCellId)}/submissions/latest`,
+    );
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new ApiError(await errorMessage(response), response.status);
+    }
+    return (await response.json()) as Submission;
+  }
+
+  return { submitCell, latestSubmission };
+}
@@ -0,0 +1,9 @@
+export {
+  ApiError,
+  AuthError,
+  ConflictError,
+  createApiClient,
+  type ApiClient,
+  type ApiClientOptions,
+} from './client';
+export type * from './types';
@@ -0,0 +1,50 @@
+import type { FeatureCollection, Polygon } from 'geojson';
+import type { FiboaProperties } from '@/exporters';
+
+/**
+ * Submission API of the FTW backend, relative to `VITE_API_BASE_URL`:
+ *
+ * - `POST grid-cells/{gridCellId}/submissions` with a `SubmissionRequest`
+ *   returns the `SubmissionInfo` of the new version, or 409 with a
+ *   `ConflictResponse` if the cell was submitted since `base_version`.
+ * - `GET grid-cells/{gridCellId}/submissions/latest` returns the latest
+ *   `Submission`, or 404 if the cell has not been submitted.
+ *
+ * Requests carry the user's token as `Authorization: Bearer <token>`. POSTs
+ * carry an `Idempotency-Key`, so retried requests do not add versions.
+ */
+export interface SubmissionMetadata {
+  feature_count: number;
+  /** Total field area in hectares */
+  total_area: number;
+  /** Name of the grid the cell geometry came from */
+  grid: string;
+  created_at: string;
+}
+
+export interface SubmissionRequest {
+  /** Version the edits are based on, null for the first submission of a cell */
+  base_version: number | null;
+  metadata: SubmissionMetadata;
+  features: FeatureCollection<Polygon, FiboaProperties>;
+}
+
+export interface SubmissionInfo {
+  grid_cell_id: string;
+  version: number;
+  submitted_at: string;
+}
+
+export interface Submission extends SubmissionInfo {
+  metadata: SubmissionMetadata;
+  features: FeatureCollection<Polygon, FiboaProperties>;
+}
+
+export interface ConflictResponse {
+  message: string;
+  latest_version: number;
+}
+
+export interface ErrorResponse {
+  message: string;
+}
@@ -0,0 +1,123 @@
+import { ref, shallowRef } from 'vue';
+import type { Feature } from 'ol';
+
+/**
+ * Attributes of a field polygon. Any other properties that came with an
+ * imported feature (e.g. model confidence) are kept alongside these.
+ */
+export interface FieldAttributes {
+  /** Crop or land-cover class */
+  class?: string;
+  /** Free-text note by the editor */
+  note?: string;
+  /** ID of the model prediction the field was derived from */
+  source_id?: string;
+  /** Review status, only set for imported model predictions */
+  review_status?: ReviewStatus;
+  [key: string]: unknown;
+}
+
+export type ReviewStatus = 'unreviewed' | 'accepted' | 'corrected' | 'rejected';
+
+/** Attribute holding the review status of an imported model prediction */
+export const REVIEW_STATUS = 'review_status';
+
+export const FIELD_ATTRIBUTE_KEYS = ['class', 'note', 'source_id', REVIEW_STATUS] as const;
+
+export const FIELD_CLASSES = [
+  'cropland',
+  'grassland',
+  'orchard',
+  'vineyard',
+  'fallow',
+  'greenhouse',
+  'other',
+];
+
+const selectedFeature = shallowRef<Feature | undefined>(undefined);
+const attributes = ref<FieldAttributes>({});
+
+/**
+ * All properties of a feature except its geometry.
+ */
+export function attributesOf(feature: Feature): FieldAttributes {
+  const properties = { ...feature.getProperties() };
+  delete properties[feature.getGeometryName()];
+  return properties;
+}
+
+/**
+ * Prepare an imported feature: the prediction ID (feature ID or `id`
+ * property) is kept as `source_id` so it survives splits and merges, and
+ * the prediction starts out unreviewed.
+ */
+export function normalizeImportedAttributes(feature: Feature) {
+  if (feature.get(REVIEW_STATUS) === undefined) {
+    feature.set(REVIEW_STATUS, 'unreviewed', true);
+  }
+  if (feature.get('source_id') !== undefined) return;
+  const id = feature.getId() ?? feature.get('id');
+  if (id !== undefined && id !== null) {
+    feature.set('source_id', String(id), true);
+  }
+}
+
+/**
+ * Attributes for a field derived from an edited one. A reviewed or unreviewed
+ * prediction that gets edited becomes corrected.
+ */
+export function editedAttributes(attributes: FieldAttributes): FieldAttributes {
+  if (attributes[REVIEW_STATUS] === undefined || attributes[REVIEW_STATUS] === 'rejected') {
+    return attributes;
+  }
+  return { ...attributes, [REVIEW_STATUS]: 'corrected' };
+}
+
+export function markCorrected(feature: Feature) {
+  const status = feature.get(REVIEW_STATUS);
+  if (status !== undefined && status !== 'rejected') {
+    feature.set(REVIEW_STATUS, 'corrected');
+  }
+}
+
+function combine(a: string, b: string, separator: string) {
+  const split = (value: string) => value.split(separator.trim()).map((v) => v.trim());
+  const values = new Set([...split(a), ...split(b)]);
+  values.delete('');
+  return [...values].join(separator);
+}
+
+/**
+ * Attributes of a field merged from `target` and `source`. Notes and source
+ * IDs of both are combined, for everything else the target (the field that
+ * was selected first) wins and the source only fills in missing values.
+ */
+export function mergeAttributes(
+  targetAttributes: FieldAttributes,
+  sourceAttributes: FieldAttributes,
+): FieldAttributes {
+  const merged: FieldAttributes = { ...sourceAttributes, ...targetAttributes };
+  for (const [key, separator] of [
+    ['note', '; '],
+    ['source_id', ','],
+  ] as const) {
+    const a = targetAttributes[key];
+    const b = sourceAttributes[key];
+    if (a && b) {
+      merged[key] = combine(String(a), String(b), separator);
+    }
+  }
+  return merged;
+}
+
+export function selectFeature(feature: Feature | undefined) {
+  selectedFeature.value = feature;
+  attributes.value = feature ? attributesOf(feature) : {};
+}
+
+export function useAttributes() {
+  return {
+    selectedFeature,
+    attributes,
+  };
+}
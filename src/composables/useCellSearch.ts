@@ -0,0 +1,172 @@
+import { ref } from 'vue';
+import proj4 from 'proj4';
+import { toPoint } from 'mgrs';
+import { projectionDefinition } from '@/importers';
+import { GridGeometryError } from '@/grid';
+import { gridCellExtent, gridCellIdAt, useGrid } from './useGrid';
+
+type CellQuery = { id: string } | { lonLat: [number, number] };
+
+class CellSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CellSearchError';
+  }
+}
+
+/** Zone, latitude band, 100 km square and an even number of digits */
+const MGRS_PATTERN = /^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z]{2})(\d*)$/;
+const LAT_LON_PATTERN = /^(-?\d+(?:\.\d+)?)°?\s*([NS])?\s*[,;\s]\s*(-?\d+(?:\.\d+)?)°?\s*([EW])?$/i;
+const UTM_PATTERN =
+  /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:m?E)?\s*[,;\s]\s*(\d+(?:\.\d+)?)\s*(?:m?N)?$/i;
+const BBOX_PATTERN = /^(-?\d+(?:\.\d+)?)(?:\s*,\s*(-?\d+(?:\.\d+)?)){3}$/;
+
+const { selectGridCellById } = useGrid();
+
+const searching = ref(false);
+const searchError = ref<string>();
+
+function checkMgrs(mgrs: string) {
+  const match = mgrs.match(MGRS_PATTERN);
+  if (!match) return undefined;
+  const zone = parseInt(match[1]!, 10);
+  const digits = match[4]!;
+  if (zone < 1 || zone > 60) {
+    throw new CellSearchError(`Invalid UTM zone ${zone}`);
+  }
+  if (digits.length % 2 !== 0) {
+    throw new CellSearchError('MGRS easting and northing need the same number of digits');
+  }
+  return digits;
+}
+
+function parseCellId(query: string): CellQuery {
+  const mgrs = query.replace(/^ftw-/i, '').replace(/\s+/g, '').toUpperCase();
+  const digits = checkMgrs(mgrs);
+  // Cells are named after their south west 1 km square
+  if (digits === undefined || digits.length !== 4) {
+    throw new CellSearchError(`Malformed grid cell ID ${query}, expected e.g. ftw-33UUU9117`);
+  }
+  const id = `ftw-${mgrs}`;
+  try {
+    if (gridCellExtent(id)) return { id };
+  } catch {
+    // Invalid 100 km square for the zone
+  }
+  throw new CellSearchError(`Grid cell ${id} does not exist`);
+}
+
+function parseMgrs(query: string): CellQuery | undefined {
+  const mgrs = query.replace(/\s+/g, '').toUpperCase();
+  const digits = checkMgrs(mgrs);
+  if (digits === undefined) return undefined;
+  if (digits.length < 4) {
+    throw new CellSearchError('MGRS reference too coarse, use at least 1 km precision');
+  }
+  try {
+    return { lonLat: toPoint(mgrs) };
+  } catch {
+    throw new CellSearchError(`Invalid MGRS reference ${mgrs}`);
+  }
+}
+
+/**
+ * UTM coordinates with zone and latitude band, e.g. `33U 391234 5819876`.
+ * Bands C to M are south of the equator.
+ */
+function parseUtm(query: string): CellQuery | undefined {
+  const match = query.match(UTM_PATTERN);
+  if (!match) return undefined;
+  const zone = parseInt(match[1]!, 10);
+  if (zone < 1 || zone > 60) {
+    throw new CellSearchError(`Invalid UTM zone ${zone}`);
+  }
+  const south = match[2]!.toUpperCase() < 'N';
+  const definition = projectionDefinition({ epsg: (south ? 32700 : 32600) + zone })!;
+  const [lon, lat] = proj4(definition, 'EPSG:4326').forward([
+    parseFloat(match[3]!),
+    parseFloat(match[4]!),
+  ]);
+  return { lonLat: [lon!, lat!] };
+}
+
+function checkLonLat(lon: number, lat: number): CellQuery {
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new CellSearchError('Latitude must be within ±90° and longitude within ±180°');
+  }
+  return { lonLat: [lon, lat] };
+}
+
+/**
+ * A bounding box `minLon,minLat,maxLon,maxLat` resolves to the cell at its
+ * center.
+ */
+function parseBbox(query: string): CellQuery | undefined {
+  if (!BBOX_PATTERN.test(query)) return undefined;
+  const [west, south, east, north] = query.split(',').map((v) => parseFloat(v)) as [
+    number,
+    number,
+    number,
+    number,
+  ];
+  if (west > east || south > north) {
+    throw new CellSearchError('Bounding box must be minLon,minLat,maxLon,maxLat');
+  }
+  return checkLonLat((west + east) / 2, (south + north) / 2);
+}
+
+/**
+ * Latitude and longitude in decimal degrees, e.g. `52.5, 13.4` or
+ * `52.5N 13.4E`.
+ */
+function parseLatLon(query: string): CellQuery | undefined {
+  const match = query.match(LAT_LON_PATTERN);
+  if (!match) return undefined;
+  const lat = parseFloat(match[1]!) * (match[2]?.toUpperCase() === 'S' ? -1 : 1);
+  const lon = parseFloat(match[3]!) * (match[4]?.toUpperCase() === 'W' ? -1 : 1);
+  return checkLonLat(lon, lat);
+}
+
+function parseQuery(query: string): CellQuery {
+  if (/^ftw-/i.test(query)) return parseCellId(query);
+  const result = parseMgrs(query) ?? parseUtm(query) ?? parseBbox(query) ?? parseLatLon(query);
+  if (!result) {
+    throw new CellSearchError(
+      'Enter a grid cell ID, MGRS reference, lat/lon, UTM coordinates or bounding box',
+    );
+  }
+  return result;
+}
+
+/**
+ * Select the grid cell a search query refers to.
+ */
+async function searchGridCell(query: string) {
+  searchError.value = undefined;
+  const trimmed = query.trim();
+  if (!trimmed) return;
+  searching.value = true;
+  try {
+    const result = parseQuery(trimmed);
+    const id = 'id' in result ? result.id : await gridCellIdAt(result.lonLat);
+    if (!id) {
+      throw new CellSearchError('No grid cell found at this location');
+    }
+    selectGridCellById(id);
+  } catch (error) {
+    searchError.value =
+      error instanceof CellSearchError || error instanceof GridGeometryError
+        ? error.message
+        : `Could not find ${trimmed}`;
+  } finally {
+    searching.value = false;
+  }
+}
+
+export function useCellSearch() {
+  return {
+    searching,
+    searchError,
+    searchGridCell,
+  };
+}
@@ -0,0 +1,203 @@
+import { ref, watch } from 'vue';
+import { Feature } from 'ol';
+import type Map from 'ol/Map';
+import VectorSource from 'ol/source/Vector';
+import VectorLayer from 'ol/layer/Vector';
+import { Stroke, Style } from 'ol/style';
+import { MultiPolygon, Polygon } from 'ol/geom';
+import type { Geometry } from 'ol/geom';
+import { buffer, createEmpty, extend, getCenter, intersects } from 'ol/extent';
+import { getPointResolution } from 'ol/proj';
+import { getUid } from 'ol/util';
+import {
+  cleanClosedRing,
+  cleanLine,
+  coordKey,
+  isValidPolygon,
+  orthogonalizeRing,
+  type Coords,
+} from '@/geometry';
+import { modifyGeometries, selectedFeatures, useEdit } from './useEdit';
+import { gridCellExtent, useGrid } from './useGrid';
+
+export interface CleanupOptions {
+  /** Maximum deviation of the simplified boundary, in meters */
+  tolerance: number;
+  /** Replace raster staircase edges by the diagonals they approximate */
+  smoothStaircase: boolean;
+  /** Square the corners of nearly rectangular fields */
+  orthogonalize: boolean;
+}
+
+const PREVIEW_DELAY = 200;
+/** Edges up to this length in meters are treated as raster staircase steps */
+const STAIRCASE_STEP = 15;
+
+const { editMode, editSource, selectionCount } = useEdit();
+const { selectedGridCellId } = useGrid();
+
+const cleanupScope = ref<'selection' | 'cell'>('selection');
+const cleanupOptions = ref<CleanupOptions>({
+  tolerance: 1,
+  smoothStaircase: true,
+  orthogonalize: false,
+});
+
+const previewSource = new VectorSource();
+const previewLayer = new VectorLayer({
+  source: previewSource,
+  style: new Style({
+    stroke: new Stroke({ color: 'rgba(255, 152, 0, 1)', width: 2, lineDash: [6, 4] }),
+  }),
+});
+
+let map: Map | undefined;
+let previewTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function polygonsOf(geometry: Geometry | undefined): Coords[][] {
+  if (geometry instanceof Polygon) return [geometry.getCoordinates()];
+  if (geometry instanceof MultiPolygon) return geometry.getCoordinates();
+  return [];
+}
+
+/**
+ * Clean up the geometries of the given fields. Boundary sections shared
+ * between fields are cleaned once and reused, so neighbours stay snapped to
+ * each other; sections shared with fields that are not cleaned are kept as
+ * they are. Only rings with no shared vertices are orthogonalized. Fields
+ * whose cleaned geometry would be invalid are left as they are.
+ */
+function cleanGeometries(features: Feature[], options: CleanupOptions) {
+  const targets = new Set(features.map((f) => getUid(f)));
+  const extent = createEmpty();
+  features.forEach((f) => extend(extent, f.getGeometry()!.getExtent()));
+
+  // Fields each vertex belongs to, including untouched neighbours
+  const owners = new globalThis.Map<string, Set<string>>();
+  for (const feature of editSource.getFeaturesInExtent(buffer(extent, 1))) {
+    const uid = getUid(feature);
+    for (const polygon of polygonsOf(feature.getGeometry())) {
+      for (const ring of polygon) {
+        for (const c of ring) {
+          const key = coordKey(c);
+          if (!owners.has(key)) owners.set(key, new Set());
+          owners.get(key)!.add(uid);
+        }
+      }
+    }
+  }
+  const segmentOwners = (a: number[], b: number[]) => {
+    const ownersB = owners.get(coordKey(b))!;
+    return [...owners.get(coordKey(a))!].filter((uid) => ownersB.has(uid)).sort();
+  };
+
+  const projection = map!.getView().getProjection();
+  const cleanedSections = new globalThis.Map<string, Coords>();
+  const result: { feature: Feature; geometry: Geometry }[] = [];
+
+  for (const feature of features) {
+    const geometry = feature.getGeometry()!;
+    const metersPerUnit = getPointResolution(projection, 1, getCenter(geometry.getExtent()));
+    const tolerance = options.tolerance / metersPerUnit;
+    const maxStep = options.smoothStaircase ? STAIRCASE_STEP / metersPerUnit : undefined;
+
+    const cleanRing = (ring: Coords): Coords => {
+      const open = ring.slice(0, -1);
+      const n = open.length;
+      const segments = open.map((c, i) => segmentOwners(c, open[(i + 1) % n]!).join(','));
+      const nodes = open.map((_, i) => i).filter((i) => segments[i] !== segments[(i + n - 1) % n]);
+
+      if (nodes.length === 0) {
+        if (segments[0] !== getUid(feature)) return ring;
+        const cleaned = cleanClosedRing(ring, tolerance, maxStep);
+        return (options.orthogonalize && orthogonalizeRing(cleaned)) || cleaned;
+      }
+
+      const cleaned: Coords = [];
+      nodes.forEach((node, k) => {
+        const end = nodes[(k + 1) % nodes.length]!;
+        const section: Coords = [];
+        for (let i = node; ; i = (i + 1) % n) {
+          section.push(open[i]!);
+          if (section.length > 1 && i === end) break;
+        }
+        const sectionOwners = segments[node]!.split(',');
+        let cleanedSection = section;
+        if (sectionOwners.every((uid) => targets.has(uid))) {
+          // Clean shared sections in a canonical direction so both sides match
+          const reversed = coordKey(section[0]!) > coordKey(section[section.length - 1]!);
+          const canonical = reversed ? section.slice().reverse() : section;
+          const key = `${segments[node]}|${canonical.slice(0, 2).map(coordKey).join('|')}|${coordKey(canonical[canonical.length - 1]!)}`;
+          if (!cleanedSections.has(key)) {
+            cleanedSections.set(key, cleanLine(canonical, tolerance, maxStep));
+          }
+          const cached = cleanedSections.get(key)!;
+          cleanedSection = reversed ? cached.slice().reverse() : cached;
+        }
+        cleaned.push(...cleanedSection.slice(0, -1));
+      });
+      cleaned.push(cleaned[0]!);
+      // Keep rings that would collapse
+      return cleaned.length >= 4 ? cleaned : ring;
+    };
+
+    const original = polygonsOf(geometry);
+    const polygons = original.map((polygon) => polygon.map(cleanRing));
+    // Simplifying can make a ring cross itself or another ring of the field
+    if (!polygons.every(isValidPolygon)) continue;
+    if (JSON.stringify(polygons) !== JSON.stringify(original)) {
+      result.push({
+        feature,
+        geometry: polygons.length === 1 ? new Polygon(polygons[0]!) : new MultiPolygon(polygons),
+      });
+    }
+  }
+  return result;
+}
+
+function cleanupFeatures(): Feature[] {
+  if (cleanupScope.value === 'selection') return selectedFeatures();
+  const extent = selectedGridCellId.value && gridCellExtent(selectedGridCellId.value);
+  if (!extent) return [];
+  return editSource
+    .getFeatures()
+    .filter((feature) => intersects(feature.getGeometry()!.getExtent(), extent));
+}
+
+function updatePreview() {
+  previewSource.clear();
+  if (!map || editMode.value !== 'select') return;
+  const changes = cleanGeometries(cleanupFeatures(), cleanupOptions.value);
+  previewSource.addFeatures(changes.map(({ geometry }) => new Feature(geometry)));
+}
+
+function schedulePreview() {
+  clearTimeout(previewTimeout);
+  previewTimeout = setTimeout(updatePreview, PREVIEW_DELAY);
+}
+
+/**
+ * Apply the previewed cleanup as a single undo step.
+ */
+function applyCleanup() {
+  if (!map) return;
+  clearTimeout(previewTimeout);
+  modifyGeometries(cleanGeometries(cleanupFeatures(), cleanupOptions.value));
+  updatePreview();
+}
+
+export function initCleanup(mapInstance: Map) {
+  map = mapInstance;
+  map.addLayer(previewLayer);
+  editSource.on('change', schedulePreview);
+  watch([editMode, selectionCount, cleanupScope, selectedGridCellId], schedulePreview);
+  watch(cleanupOptions, schedulePreview, { deep: true });
+}
+
+export function useCleanup() {
+  return {
+    cleanupScope,
+    cleanupOptions,
+    applyCleanup,
+  };
+}
@@ -0,0 +1,298 @@
+import { ref, shallowRef, watch } from 'vue';
+import VectorSource from 'ol/source/Vector';
+import VectorLayer from 'ol/layer/Vector';
+import { Fill, Stroke, Style } from 'ol/style';
+import { MultiPolygon, Polygon } from 'ol/geom';
+import { Feature } from 'ol';
+import type Map from 'ol/Map';
+import type { FeatureLike } from 'ol/Feature';
+import { getArea } from 'ol/sphere';
+import { intersects } from 'ol/extent';
+import polygonClipping from 'polygon-clipping';
+import { compareFields, type FieldChange } from '@/geometry';
+import { REVIEW_STATUS } from './useAttributes';
+import { useEdit } from './useEdit';
+import { gridCellExtent, useGrid } from './useGrid';
+
+export type { FieldChange };
+
+export interface DiffStats {
+  /** Number of predicted fields in the cell */
+  baselineCount: number;
+  /** Number of edited fields in the cell */
+  editedCount: number;
+  /** Edited fields without a matching prediction */
+  added: number;
+  /** Predictions without a matching edited field */
+  removed: number;
+  /** Predictions matched by one edited field with a different shape */
+  reshaped: number;
+  /** Predictions split into several edited fields */
+  split: number;
+  /** Edited fields merged from several predictions */
+  merged: number;
+  unchanged: number;
+  /** Field area in the cell in m², before and after editing */
+  baselineArea: number;
+  editedArea: number;
+  /** Area that is field in only one of prediction and edit, in m² */
+  changedArea: number;
+  /** Intersection over union of the field areas, undefined if both are empty */
+  iou?: number;
+}
+
+const UPDATE_DELAY = 500;
+
+const CHANGE = 'change';
+
+const { editSource, gridSnapSource, baselineSource } = useEdit();
+const { selectedGridCellId } = useGrid();
+
+const hasBaseline = ref(false);
+const baselineVisible = ref(false);
+const diffVisible = ref(true);
+const diffStats = shallowRef<DiffStats>();
+const diffError = ref<string>();
+
+const changeColors: Record<FieldChange, string> = {
+  added: '76, 175, 80',
+  removed: '244, 67, 54',
+  reshaped: '255, 152, 0',
+  split: '171, 71, 188',
+  merged: '171, 71, 188',
+  unchanged: '158, 158, 158',
+};
+
+const changeStyles = Object.fromEntries(
+  Object.entries(changeColors).map(([change, color]) => [
+    change,
+    new Style({
+      fill: new Fill({ color: `rgba(${color}, 0.3)` }),
+      stroke: new Stroke({
+        color: `rgba(${color}, 1)`,
+        width: 2,
+        lineDash: change === 'removed' ? [6, 4] : undefined,
+      }),
+    }),
+  ]),
+) as Record<FieldChange, Style>;
+
+const baselineLayer = new VectorLayer({
+  source: baselineSource,
+  style: new Style({
+    stroke: new Stroke({ color: 'rgba(255, 255, 255, 0.7)', width: 1.5, lineDash: [4, 4] }),
+  }),
+});
+
+const diffSource = new VectorSource();
+const diffLayer = new VectorLayer({
+  source: diffSource,
+  style: (feature: FeatureLike) => changeStyles[feature.get(CHANGE) as FieldChange],
+});
+
+let map: Map | undefined;
+let updateTimeout: ReturnType<typeof setTimeout> | undefined;
+/** Whether the changes are shown and follow the edits */
+let active = false;
+
+interface CellField {
+  feature: Feature;
+  polygons: polygonClipping.MultiPolygon;
+}
+
+function polygonsOf(feature: Feature): polygonClipping.MultiPolygon {
+  const geom = feature.getGeometry();
+  if (geom instanceof Polygon) return [geom.getCoordinates() as polygonClipping.Polygon];
+  if (geom instanceof MultiPolygon) return geom.getCoordinates() as polygonClipping.MultiPolygon;
+  return [];
+}
+
+function multiArea(coordinates: polygonClipping.MultiPolygon) {
+  if (coordinates.length === 0) return 0;
+  return getArea(new MultiPolygon(coordinates), { projection: map!.getView().getProjection() });
+}
+
+/**
+ * Fields of a source in a grid cell. Rejected predictions are not fields.
+ */
+function cellFields(source: VectorSource, gridCellId: string): CellField[] {
+  const extent = gridCellExtent(gridCellId);
+  if (!extent) return [];
+  return source
+    .getFeatures()
+    .filter((feature) => feature.get(REVIEW_STATUS) !== 'rejected')
+    .filter((feature) => intersects(feature.getGeometry()!.getExtent(), extent))
+    .map((feature) => ({ feature, polygons: polygonsOf(feature) }))
+    .filter(({ polygons }) => multiArea(polygons) > 0);
+}
+
+function unionInCell(fields: CellField[], cell: polygonClipping.MultiPolygon) {
+  if (fields.length === 0) return [];
+  const [first, ...rest] = fields.map((field) => field.polygons);
+  return polygonClipping.intersection(polygonClipping.union(first!, ...rest), cell);
+}
+
+/**
+ * Compare the edited fields of the selected grid cell to the imported
+ * predictions, and show the changes on the map.
+ */
+function updateDiff() {
+  clearTimeout(updateTimeout);
+  active = true;
+  diffSource.clear();
+  diffError.value = undefined;
+  const gridCellId = selectedGridCellId.value;
+  const cellFeature = gridSnapSource.getFeatures()[0];
+  if (!map || !gridCellId || !cellFeature || !hasBaseline.value) {
+    diffStats.value = undefined;
+    return;
+  }
+
+  try {
+    diffStats.value = compareCell(gridCellId, cellFeature);
+  } catch (error) {
+    // Invalid geometries, e.g. self-intersecting rings, make polygon clipping fail
+    diffStats.value = undefined;
+    diffSource.clear();
+    diffError.value = `Could not compare the fields: ${(error as Error).message}`;
+  }
+}
+
+function compareCell(gridCellId: string, cellFeature: Feature): DiffStats {
+  const baseline = cellFields(baselineSource, gridCellId);
+  const edited = cellFields(editSource, gridCellId);
+  const comparison = compareFields(
+    baseline.map(({ polygons }) => polygons),
+    edited.map(({ polygons }) => polygons),
+    multiArea,
+  );
+
+  const cell = polygonsOf(cellFeature);
+  const before = unionInCell(baseline, cell);
+  const after = unionInCell(edited, cell);
+  const baselineArea = multiArea(before);
+  const editedArea = multiArea(after);
+  const intersection = multiArea(polygonClipping.intersection(before, after));
+  const union = baselineArea + editedArea - intersection;
+
+  const changes = [
+    ...baseline.map(({ feature }, i) => [feature, comparison.baseline[i]] as const),
+    ...edited.map(({ feature }, i) => [feature, comparison.edited[i]] as const),
+  ];
+  diffSource.addFeatures(
+    changes
+      .filter(([, change]) => change !== undefined)
+      .map(
+        ([feature, change]) =>
+          new Feature({ geometry: feature.getGeometry()!.clone(), [CHANGE]: change }),
+      ),
+  );
+
+  return {
+    baselineCount: baseline.length,
+    editedCount: edited.length,
+    ...comparison.counts,
+    baselineArea,
+    editedArea,
+    changedArea: union - intersection,
+    iou: union > 0 ? intersection / union : undefined,
+  };
+}
+
+function scheduleUpdate() {
+  if (!active) return;
+  clearTimeout(updateTimeout);
+  updateTimeout = setTimeout(updateDiff, UPDATE_DELAY);
+}
+
+function clearDiff() {
+  clearTimeout(updateTimeout);
+  active = false;
+  diffStats.value = undefined;
+  diffError.value = undefined;
+  diffSource.clear();
+}
+
+/**
+ * Download the change statistics of the selected grid cell as JSON.
+ */
+function exportDiffReport() {
+  const gridCellId = selectedGridCellId.value;
+  if (!gridCellId) return;
+  updateDiff();
+  const stats = diffStats.value;
+  if (!stats) return;
+  const report = {
+    grid_cell_id: gridCellId,
+    created_at: new Date().toISOString(),
+    counts: {
+      baseline: stats.baselineCount,
+      edited: stats.editedCount,
+      added: stats.added,
+      removed: stats.removed,
+      reshaped: stats.reshaped,
+      split: stats.split,
+      merged: stats.merged,
+      unchanged: stats.unchanged,
+    },
+    area: {
+      baseline: stats.baselineArea,
+      edited: stats.editedArea,
+      changed: stats.changedArea,
+    },
+    iou: stats.iou ?? null,
+  };
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `changes-${gridCellId}.json`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Whether there are predictions in the selected grid cell. Cells without are
+ * not compared, as all their fields would be added.
+ */
+function updateHasBaseline() {
+  const extent = selectedGridCellId.value && gridCellExtent(selectedGridCellId.value);
+  hasBaseline.value = !!extent && baselineSource.getFeaturesInExtent(extent).length > 0;
+}
+
+export function initDiff(mapInstance: Map) {
+  map = mapInstance;
+  // Below the edit layer, so the prediction outlines do not hide the edits
+  const layers = map.getLayers();
+  const editLayerIndex = layers
+    .getArray()
+    .findIndex((layer) => layer instanceof VectorLayer && layer.getSource() === editSource);
+  layers.insertAt(editLayerIndex === -1 ? layers.getLength() : editLayerIndex, baselineLayer);
+  map.addLayer(diffLayer);
+
+  baselineSource.on('change', () => {
+    updateHasBaseline();
+    scheduleUpdate();
+  });
+  editSource.on('change', scheduleUpdate);
+  gridSnapSource.on('change', scheduleUpdate);
+  watch(selectedGridCellId, () => {
+    updateHasBaseline();
+    clearDiff();
+  });
+  watch(baselineVisible, (visible) => baselineLayer.setVisible(visible), { immediate: true });
+  watch(diffVisible, (visible) => diffLayer.setVisible(visible), { immediate: true });
+}
+
+export function useDiff() {
+  return {
+    hasBaseline,
+    baselineVisible,
+    diffVisible,
+    diffStats,
+    diffError,
+    updateDiff,
+    clearDiff,
+    exportDiffReport,
+  };
+}
@@ -0,0 +1,253 @@
+import { ref, watch } from 'vue';
+import GeoJSON from 'ol/format/GeoJSON';
+import type { Feature } from 'ol';
+import type Map from 'ol/Map';
+import type VectorSource from 'ol/source/Vector';
+import { intersects } from 'ol/extent';
+import type { FeatureCollection } from 'geojson';
+import { loadFeatures, useEdit } from './useEdit';
+import { gridCellExtent, useGrid } from './useGrid';
+
+export interface DraftInfo {
+  id: string;
+  updated: number;
+  featureCount: number;
+}
+
+interface DraftRecord extends DraftInfo {
+  geojson: FeatureCollection;
+  /** Imported predictions of the cell, which the edits are compared to */
+  baseline?: FeatureCollection;
+}
+
+export type DraftStatus = 'loading' | 'unsaved' | 'saved' | 'error' | null;
+
+const DB_NAME = 'ftw-editing-app';
+const STORE_NAME = 'drafts';
+const SAVE_DELAY = 500;
+
+const { editMode, editSource, baselineSource } = useEdit();
+const { selectedGridCellId } = useGrid();
+
+const drafts = ref<DraftInfo[]>([]);
+const draftStatus = ref<DraftStatus>(null);
+const draftError = ref<string>();
+
+const format = new GeoJSON();
+
+let map: Map | undefined;
+let db: Promise<IDBDatabase> | undefined;
+let saveTimeout: ReturnType<typeof setTimeout> | undefined;
+let suppressSave = false;
+/** Incremented on every edit that is saved, to notice edits during a restore */
+let editRevision = 0;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return db;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = callback(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Report a failure of the draft storage, e.g. a full quota or storage blocked
+ * in private browsing, instead of letting autosave stop silently.
+ */
+function reportError(error: unknown) {
+  draftStatus.value = 'error';
+  draftError.value = `Could not store drafts in this browser: ${
+    error instanceof Error ? error.message : String(error)
+  }`;
+}
+
+async function refreshDrafts() {
+  const records = await withStore<DraftRecord[]>('readonly', (store) => store.getAll());
+  drafts.value = records
+    .map(({ id, updated, featureCount }) => ({ id, updated, featureCount }))
+    .sort((a, b) => b.updated - a.updated);
+}
+
+/**
+ * Features of the edit layer, or another source, that belong to a grid cell,
+ * i.e. whose extent intersects the cell extent. Features of other cells (e.g.
+ * from a model run covering a whole tile) stay out of the draft.
+ */
+export function cellFeatures(gridCellId: string, source: VectorSource = editSource): Feature[] {
+  const extent = gridCellExtent(gridCellId);
+  if (!extent) return [];
+  return source
+    .getFeatures()
+    .filter((feature) => intersects(feature.getGeometry()!.getExtent(), extent));
+}
+
+async function saveDraft(gridCellId: string) {
+  if (!map) return;
+  const features = cellFeatures(gridCellId);
+  const exists = drafts.value.some((draft) => draft.id === gridCellId);
+  if (features.length === 0 && !exists) {
+    draftStatus.value = null;
+    return;
+  }
+  const featureProjection = map.getView().getProjection();
+  const baseline = cellFeatures(gridCellId, baselineSource);
+  const record: DraftRecord = {
+    id: gridCellId,
+    updated: Date.now(),
+    featureCount: features.length,
+    geojson: format.writeFeaturesObject(features, { featureProjection }) as FeatureCollection,
+    baseline:
+      baseline.length > 0
+        ? (format.writeFeaturesObject(baseline, { featureProjection }) as FeatureCollection)
+        : undefined,
+  };
+  await withStore('readwrite', (store) => store.put(record));
+  if (selectedGridCellId.value === gridCellId) {
+    draftStatus.value = 'saved';
+    draftError.value = undefined;
+  }
+  await refreshDrafts();
+}
+
+function flushSave() {
+  if (!saveTimeout) return;
+  clearTimeout(saveTimeout);
+  saveTimeout = undefined;
+  const gridCellId = selectedGridCellId.value;
+  if (gridCellId) {
+    saveDraft(gridCellId).catch(reportError);
+  }
+}
+
+function scheduleSave() {
+  if (suppressSave || !selectedGridCellId.value) return;
+  editRevision++;
+  draftStatus.value = 'unsaved';
+  clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(() => {
+    saveTimeout = undefined;
+    saveDraft(selectedGridCellId.value!).catch(reportError);
+  }, SAVE_DELAY);
+}
+
+/**
+ * Change the edit layer without saving drafts, e.g. to load features that
+ * have not been edited yet.
+ */
+export function withoutAutosave(callback: () => void) {
+  suppressSave = true;
+  try {
+    callback();
+  } finally {
+    suppressSave = false;
+  }
+}
+
+/**
+ * Replace the features of a grid cell in the edit layer with its stored draft.
+ * Editing is blocked while the draft loads; if the cell was edited anyway, the
+ * draft is not restored, so the edits are not lost.
+ */
+async function restoreDraft(gridCellId: string) {
+  if (!map) return;
+  const revision = editRevision;
+  if (drafts.value.some((draft) => draft.id === gridCellId)) {
+    draftStatus.value = 'loading';
+    editMode.value = null;
+  }
+  const record = await withStore<DraftRecord | undefined>('readonly', (store) =>
+    store.get(gridCellId),
+  );
+  if (selectedGridCellId.value !== gridCellId) return;
+  if (editRevision !== revision) {
+    draftStatus.value = 'error';
+    draftError.value =
+      'The area was edited while its draft was loading, so the draft was not restored';
+    return;
+  }
+  if (!record) {
+    if (draftStatus.value === 'loading') draftStatus.value = null;
+    return;
+  }
+  withoutAutosave(() => loadFeatures(record.geojson, cellFeatures(gridCellId)));
+  if (record.baseline) {
+    for (const feature of cellFeatures(gridCellId, baselineSource)) {
+      baselineSource.removeFeature(feature);
+    }
+    baselineSource.addFeatures(
+      format.readFeatures(record.baseline, {
+        featureProjection: map.getView().getProjection(),
+      }),
+    );
+  }
+  draftStatus.value = 'saved';
+}
+
+async function discardDraft(gridCellId: string) {
+  if (selectedGridCellId.value === gridCellId) {
+    clearTimeout(saveTimeout);
+    saveTimeout = undefined;
+    withoutAutosave(() => loadFeatures(undefined, cellFeatures(gridCellId)));
+    draftStatus.value = null;
+  }
+  try {
+    await withStore('readwrite', (store) => store.delete(gridCellId));
+    await refreshDrafts();
+  } catch (error) {
+    reportError(error);
+  }
+}
+
+export function initDrafts(mapInstance: Map) {
+  map = mapInstance;
+
+  editSource.on('change', scheduleSave);
+
+  // Save the previous cell before switching, then restore the draft of the new one
+  watch(
+    selectedGridCellId,
+    (gridCellId, previousGridCellId) => {
+      if (saveTimeout && previousGridCellId) {
+        clearTimeout(saveTimeout);
+        saveTimeout = undefined;
+        saveDraft(previousGridCellId).catch(reportError);
+      }
+      draftStatus.value = null;
+      if (gridCellId) {
+        restoreDraft(gridCellId).catch(reportError);
+      }
+    },
+    { immediate: true },
+  );
+
+  window.addEventListener('pagehide', flushSave);
+
+  refreshDrafts().catch(reportError);
+}
+
+export function useDrafts() {
+  return {
+    drafts,
+    draftStatus,
+    draftError,
+    discardDraft,
+  };
+}
@@ -4,40 +4,121 @@ import VectorLayer from 'ol/layer/Vector';
 import Draw from 'ol/interaction/Draw';
 import Modify from 'ol/interaction/Modify';
 import Snap from 'ol/interaction/Snap';
+import Select from 'ol/interaction/Select';
+import DragBox from 'ol/interaction/DragBox';
+import { platformModifierKeyOnly } from 'ol/events/condition';
 import { Fill, Stroke, Style } from 'ol/style';
 import GeoJSON from 'ol/format/GeoJSON';
 import type {
+  Feature as GeoJSONFeature,
   LineString as GeoJSONLineString,
   Polygon as GeoJSONPolygon,
   MultiPolygon as GeoJSONMultiPolygon,
 } from 'geojson';
 import polygonClipping from 'polygon-clipping';
-import type { Feature } from 'ol';
-import type { Polygon } from 'ol/geom';
+import { Feature } from 'ol';
+import { LineString, MultiPolygon, Polygon } from 'ol/geom';
+import type { Geometry } from 'ol/geom';
 import type Map from 'ol/Map';
+import type { FeatureLike } from 'ol/Feature';
 import type MapBrowserEvent from 'ol/MapBrowserEvent';
-import { isEmpty } from 'ol/extent';
-
-export type EditMode = 'draw' | 'split' | 'delete' | 'merge' | null;
+import { boundingExtent, buffer, isEmpty } from 'ol/extent';
+import {
+  attributesOf,
+  editedAttributes,
+  markCorrected,
+  mergeAttributes,
+  normalizeImportedAttributes,
+  REVIEW_STATUS,
+  selectFeature,
+  useAttributes,
+  type ReviewStatus,
+} from './useAttributes';
+import { getExporter, toFiboaFeatures } from '@/exporters';
+import {
+  GeometryCancelledError,
+  locateOnRing,
+  reshapeRing,
+  segmentCrossings,
+  type GeometryOperations,
+  type RingLocation,
+} from '@/geometry';
+import { geometryEngine } from '@/geometry/sharedEngine';
+
+export type EditMode =
+  | 'draw'
+  | 'split'
+  | 'reshape'
+  | 'cut'
+  | 'delete'
+  | 'merge'
+  | 'attributes'
+  | 'review'
+  | 'select'
+  | null;
+
+const { selectedFeature } = useAttributes();
 
 const editMode = ref<EditMode>(null);
+/** Draw split lines, or closed shapes that split a field into inside and outside */
+const splitShape = ref<'line' | 'polygon'>('line');
+/** Clip drawn and modified fields against their neighbours so they don't overlap */
+const avoidOverlap = ref(true);
 
-const editSource = new VectorSource();
-const editLayer = new VectorLayer({
-  source: editSource,
-  style: [
+function fieldStyle(color: string, fillOpacity = 0.08, lineDash?: number[]) {
+  return [
     new Style({
       stroke: new Stroke({ color: 'rgba(0, 0, 0, 0.7)', width: 4 }),
       zIndex: 0,
     }),
     new Style({
-      fill: new Fill({ color: 'rgba(0, 200, 255, 0.08)' }),
-      stroke: new Stroke({ color: 'rgba(0, 200, 255, 1)', width: 2 }),
+      fill: new Fill({ color: `rgba(${color}, ${fillOpacity})` }),
+      stroke: new Stroke({ color: `rgba(${color}, 1)`, width: 2, lineDash }),
       zIndex: 1,
     }),
-  ],
+  ];
+}
+
+const defaultStyle = fieldStyle('0, 200, 255');
+
+// Imported predictions are coloured by review status, corrected ones like drawn fields
+const reviewStyles: Record<ReviewStatus, Style[]> = {
+  unreviewed: fieldStyle('255, 220, 0'),
+  accepted: fieldStyle('0, 220, 100'),
+  corrected: defaultStyle,
+  rejected: fieldStyle('255, 60, 60', 0, [6, 6]),
+};
+
+/** Styles drawn on top of fields, e.g. measurement labels */
+let fieldOverlayStyle:
+  | ((feature: FeatureLike, resolution: number) => Style | undefined)
+  | undefined;
+
+const editSource = new VectorSource();
+const editLayer = new VectorLayer({
+  source: editSource,
+  // Only affects labels of the overlay style
+  declutter: true,
+  style: (feature, resolution) => {
+    const status = feature.get(REVIEW_STATUS) as ReviewStatus;
+    const style = reviewStyles[status] ?? defaultStyle;
+    // Rejected predictions are not fields
+    const overlay = status === 'rejected' ? undefined : fieldOverlayStyle?.(feature, resolution);
+    return overlay ? [...style, overlay] : style;
+  },
 });
 
+/**
+ * Draw a style on top of the fields, or update the fields after the inputs of
+ * the style changed. Rejected predictions get none.
+ */
+export function setFieldOverlayStyle(
+  style: (feature: FeatureLike, resolution: number) => Style | undefined,
+) {
+  fieldOverlayStyle = style;
+  editLayer.changed();
+}
+
 const splitSource = new VectorSource();
 const splitLayer = new VectorLayer({
   source: splitSource,
@@ -47,31 +128,143 @@ const splitLayer = new VectorLayer({
 });
 
 const gridSnapSource = new VectorSource();
+/** Whether the geometry of the selected grid cell has loaded, needed for clipping */
+const cellGeometryLoaded = ref(false);
+gridSnapSource.on('change', () => {
+  cellGeometryLoaded.value = gridSnapSource.getFeatures().length > 0;
+});
+
+export interface GeometryTask {
+  label: string;
+  /** Percent done, undefined until the worker reports progress */
+  progress?: number;
+  cancel: () => void;
+}
+
+/** Long-running split, merge or clipping operation in the geometry worker */
+const geometryTask = ref<GeometryTask>();
+const geometryError = ref<string>();
+const exportError = ref<string>();
+
+/** Read-only copies of imported features, the baseline edits are compared to */
+const baselineSource = new VectorSource();
 
 const format = new GeoJSON();
 
-// Undo stack — stores GeoJSON snapshots of editSource before each action
-const undoStack: object[] = [];
+// Pixel distance within which reshape line ends count as on a field boundary
+const RESHAPE_TOLERANCE = 2;
+
+/**
+ * A single undoable edit. Only the features that an action touched are
+ * recorded: features it added, features it removed, geometries it changed,
+ * attributes it set and, for imports, the baseline features it replaced.
+ */
+interface EditCommand {
+  added: Feature[];
+  removed: Feature[];
+  modified: { feature: Feature; before: Geometry; after: Geometry }[];
+  attributes: { feature: Feature; key: string; before: unknown; after: unknown }[];
+  baseline: { added: Feature[]; removed: Feature[] };
+}
+
+const MAX_HISTORY = 100;
+
+const undoStack: EditCommand[] = [];
+const redoStack: EditCommand[] = [];
 const canUndo = ref(false);
+const canRedo = ref(false);
 
-function saveSnapshot() {
-  if (!map) return;
-  const geojson = format.writeFeaturesObject(editSource.getFeatures(), {
-    featureProjection: map.getView().getProjection(),
-  });
-  undoStack.push(geojson);
-  canUndo.value = true;
+function updateHistoryState() {
+  canUndo.value = undoStack.length > 0;
+  canRedo.value = redoStack.length > 0;
+}
+
+function recordCommand(command: Partial<EditCommand>) {
+  const {
+    added = [],
+    removed = [],
+    modified = [],
+    attributes = [],
+    baseline = { added: [], removed: [] },
+  } = command;
+  if (added.length + removed.length + modified.length + attributes.length === 0) return;
+  undoStack.push({ added, removed, modified, attributes, baseline });
+  if (undoStack.length > MAX_HISTORY) {
+    undoStack.shift();
+  }
+  redoStack.length = 0;
+  updateHistoryState();
+}
+
+function clearHistory() {
+  undoStack.length = 0;
+  redoStack.length = 0;
+  updateHistoryState();
+}
+
+/**
+ * Remove and add features on the edit layer and record the change as one
+ * undoable command.
+ */
+function applyEdit(removed: Feature[], added: Feature[]) {
+  for (const f of removed) {
+    editSource.removeFeature(f);
+  }
+  editSource.addFeatures(added);
+  recordCommand({ added, removed });
+}
+
+function applyCommand(command: EditCommand, reverse: boolean) {
+  const toRemove = reverse ? command.added : command.removed;
+  const toAdd = reverse ? command.removed : command.added;
+  for (const f of toRemove) {
+    editSource.removeFeature(f);
+  }
+  editSource.addFeatures(toAdd);
+  for (const { feature, before, after } of command.modified) {
+    feature.setGeometry((reverse ? before : after).clone());
+  }
+  for (const { feature, key, before, after } of command.attributes) {
+    const value = reverse ? before : after;
+    if (value === undefined) feature.unset(key);
+    else feature.set(key, value);
+  }
+  for (const f of reverse ? command.baseline.added : command.baseline.removed) {
+    baselineSource.removeFeature(f);
+  }
+  baselineSource.addFeatures(reverse ? command.baseline.removed : command.baseline.added);
+  if (mergeTarget && !editSource.hasFeature(mergeTarget)) {
+    mergeTarget.setStyle(undefined);
+    mergeTarget = undefined;
+  }
+  if (selectedFeature.value && !editSource.hasFeature(selectedFeature.value)) {
+    selectedFeature.value.setStyle(undefined);
+    selectFeature(undefined);
+  } else if (command.attributes.some(({ feature }) => feature === selectedFeature.value)) {
+    // Refresh the attribute editor
+    selectFeature(selectedFeature.value);
+  }
+  for (const feature of select?.getFeatures().getArray().slice() ?? []) {
+    if (!editSource.hasFeature(feature)) {
+      select!.getFeatures().remove(feature);
+    }
+  }
 }
 
 function undo() {
-  if (!map || undoStack.length === 0) return;
-  const geojson = undoStack.pop()!;
-  canUndo.value = undoStack.length > 0;
-  editSource.clear();
-  const features = format.readFeatures(geojson, {
-    featureProjection: map.getView().getProjection(),
-  });
-  editSource.addFeatures(features);
+  const command = undoStack.pop();
+  if (!command) return;
+  applyCommand(command, true);
+  redoStack.push(command);
+  updateHistoryState();
+}
+
+function redo() {
+  const command = redoStack.pop();
+  if (!command) return;
+  applyCommand(command, false);
+  undoStack.push(command);
+  updateHistoryState();
 }
 
 let map: Map | undefined;
@@ -83,6 +276,13 @@ let gridSnap: Snap | undefined;
 let deleteClickHandler: ((event: MapBrowserEvent<PointerEvent>) => void) | undefined;
 let mergeClickHandler: ((event: MapBrowserEvent<PointerEvent>) => void) | undefined;
 let mergeTarget: Feature | undefined;
+let splitTarget: Feature | undefined;
+let selectClickHandler: ((event: MapBrowserEvent<PointerEvent>) => void) | undefined;
+let select: Select | undefined;
+let dragBox: DragBox | undefined;
+
+/** Number of fields selected in select mode */
+const selectionCount = ref(0);
 
 const mergeHighlightStyle = [
   new Style({
@@ -96,6 +296,18 @@ const mergeHighlightStyle = [
   }),
 ];
 
+const selectHighlightStyle = [
+  new Style({
+    stroke: new Stroke({ color: 'rgba(0, 0, 0, 0.7)', width: 4 }),
+    zIndex: 0,
+  }),
+  new Style({
+    fill: new Fill({ color: 'rgba(255, 255, 255, 0.2)' }),
+    stroke: new Stroke({ color: 'rgba(255, 255, 255, 1)', width: 2 }),
+    zIndex: 1,
+  }),
+];
+
 function removeInteractions() {
   if (!map) return;
   if (drawPolygon) {
@@ -105,6 +317,7 @@ function removeInteractions() {
   if (drawLine) {
     map.removeInteraction(drawLine);
     drawLine = undefined;
+    setSplitTarget(undefined);
   }
   if (modify) {
     map.removeInteraction(modify);
@@ -132,19 +345,103 @@ function removeInteractions() {
     }
     map.getTargetElement()?.style.setProperty('cursor', '');
   }
+  if (select) {
+    map.removeInteraction(select);
+    select.getFeatures().clear();
+    select = undefined;
+  }
+  if (dragBox) {
+    map.removeInteraction(dragBox);
+    dragBox = undefined;
+  }
+  if (selectClickHandler) {
+    map.un('singleclick', selectClickHandler as never);
+    selectClickHandler = undefined;
+    selectedFeature.value?.setStyle(undefined);
+    selectFeature(undefined);
+    map.getTargetElement()?.style.setProperty('cursor', '');
+  }
+}
+
+function polygonCoordinates(feature: Feature): polygonClipping.MultiPolygon {
+  const geom = feature.getGeometry();
+  if (geom instanceof Polygon) return [geom.getCoordinates() as polygonClipping.Polygon];
+  if (geom instanceof MultiPolygon) return geom.getCoordinates() as polygonClipping.MultiPolygon;
+  return [];
+}
+
+/**
+ * Subtract the neighbouring fields from a feature's geometry, so it shares an
+ * exact boundary with them instead of overlapping. This works on view
+ * projection coordinates, so vertices taken over from the neighbours are
+ * identical to theirs. Predictions the reviewer rejected are not fields, so
+ * they are not clipped against. Returns false if nothing of the feature is
+ * left. If the clipping fails, e.g. on degenerate rings, the feature is kept
+ * unclipped and the failure is reported.
+ */
+function clipToNeighbours(feature: Feature): boolean {
+  const geom = feature.getGeometry();
+  if (!geom) return true;
+  const neighbours = editSource
+    .getFeaturesInExtent(geom.getExtent())
+    .filter((f) => f !== feature && f.get(REVIEW_STATUS) !== 'rejected')
+    .map(polygonCoordinates)
+    .filter((coords) => coords.length > 0);
+  const coords = polygonCoordinates(feature);
+  if (neighbours.length === 0 || coords.length === 0) return true;
+
+  let result: polygonClipping.MultiPolygon;
+  try {
+    result = polygonClipping.difference(coords, ...neighbours);
+  } catch (error) {
+    geometryError.value = `Could not clip the field to its neighbours, its overlap was kept: ${(error as Error).message}`;
+    return true;
+  }
+  if (result.length === 0) return false;
+  feature.setGeometry(result.length === 1 ? new Polygon(result[0]!) : new MultiPolygon(result));
+  return true;
 }
 
 function activateDrawMode() {
   if (!map) return;
   removeInteractions();
 
-  drawPolygon = new Draw({ source: editSource, type: 'Polygon', trace: true });
+  // Drawn features are added by the drawend handler, after clipping
+  drawPolygon = new Draw({ traceSource: editSource, type: 'Polygon', trace: true });
   modify = new Modify({ source: editSource });
   snap = new Snap({ source: editSource });
   gridSnap = new Snap({ source: gridSnapSource });
 
-  drawPolygon.on('drawend', () => saveSnapshot());
-  modify.on('modifystart', () => saveSnapshot());
+  let modifyStart: { feature: Feature; before: Geometry }[] = [];
+
+  drawPolygon.on('drawend', (event) => {
+    if (avoidOverlap.value && !clipToNeighbours(event.feature)) {
+      geometryError.value = 'The drawn field lies within other fields and was not added';
+      return;
+    }
+    applyEdit([], [event.feature]);
+  });
+  modify.on('modifystart', (event) => {
+    modifyStart = event.features
+      .getArray()
+      .map((feature) => ({ feature, before: feature.getGeometry()!.clone() }));
+  });
+  modify.on('modifyend', () => {
+    for (const { feature } of modifyStart) {
+      if (avoidOverlap.value && !clipToNeighbours(feature)) {
+        geometryError.value = 'The modified field lies within other fields, its overlap was kept';
+      }
+      markCorrected(feature);
+    }
+    recordCommand({
+      modified: modifyStart.map(({ feature, before }) => ({
+        feature,
+        before,
+        after: feature.getGeometry()!.clone(),
+      })),
+    });
+    modifyStart = [];
+  });
 
   map.addInteraction(modify);
   map.addInteraction(drawPolygon);
@@ -153,192 +450,264 @@ function activateDrawMode() {
 }
 
 /**
- * Create a buffer polygon around a line by unioning per-segment rectangles.
- * Robust against sharp turns (no miter issues) and duplicate vertices.
+ * The first field a line runs through, walking from its start. Only points
+ * between consecutive boundary crossings are tested, so a shared boundary the
+ * line starts on does not select the neighbour behind it. Candidates come from
+ * the spatial index of the edit source, per segment, so a long diagonal line
+ * does not test every field in its bounding box.
  */
-function bufferLine(
-  lineCoords: number[][],
-  distance: number,
-): polygonClipping.MultiPolygon | undefined {
-  // Remove consecutive duplicate vertices
-  const coords: number[][] = [lineCoords[0]!];
-  for (let i = 1; i < lineCoords.length; i++) {
-    const prev = coords[coords.length - 1]!;
-    const curr = lineCoords[i]!;
-    if (curr[0] !== prev[0] || curr[1] !== prev[1]) {
-      coords.push(curr);
+function firstFieldAlongLine(lineCoords: number[][]): Feature | undefined {
+  for (let i = 0; i < lineCoords.length - 1; i++) {
+    const a = lineCoords[i]!;
+    const b = lineCoords[i + 1]!;
+    const candidates = editSource
+      .getFeaturesInExtent(boundingExtent([a, b]))
+      .map((feature) => ({ feature, polygons: polygonCoordinates(feature) }))
+      .filter(({ polygons }) => polygons.length > 0);
+    const crossings = [0, 1];
+    for (const { polygons } of candidates) {
+      crossings.push(...segmentCrossings(a, b, polygons));
+    }
+    crossings.sort((t1, t2) => t1 - t2);
+    for (let k = 0; k < crossings.length - 1; k++) {
+      const t = (crossings[k]! + crossings[k + 1]!) / 2;
+      const point = [a[0]! + t * (b[0]! - a[0]!), a[1]! + t * (b[1]! - a[1]!)];
+      const hit = candidates.find(({ feature }) =>
+        feature.getGeometry()!.intersectsCoordinate(point),
+      );
+      if (hit) return hit.feature;
     }
   }
-  if (coords.length < 2) return undefined;
-
-  // Create a rectangle for each segment
-  const rectangles: polygonClipping.Polygon[] = [];
-  for (let i = 0; i < coords.length - 1; i++) {
-    const x1 = coords[i]![0]!;
-    const y1 = coords[i]![1]!;
-    const x2 = coords[i + 1]![0]!;
-    const y2 = coords[i + 1]![1]!;
-    const dx = x2 - x1;
-    const dy = y2 - y1;
-    const len = Math.sqrt(dx * dx + dy * dy);
-    if (len === 0) continue;
-    const nx = (-dy / len) * distance;
-    const ny = (dx / len) * distance;
-    // Extend the rectangle by half the buffer width along the segment direction
-    const ex = (dx / len) * distance;
-    const ey = (dy / len) * distance;
-    const rect: polygonClipping.Polygon = [
-      [
-        [x1 - ex + nx, y1 - ey + ny],
-        [x2 + ex + nx, y2 + ey + ny],
-        [x2 + ex - nx, y2 + ey - ny],
-        [x1 - ex - nx, y1 - ey - ny],
-        [x1 - ex + nx, y1 - ey + ny],
-      ],
-    ];
-    rectangles.push(rect);
-  }
-
-  if (rectangles.length === 0) return undefined;
-  if (rectangles.length === 1) return [rectangles[0]!];
-  return polygonClipping.union(rectangles[0]!, ...rectangles.slice(1));
+  return undefined;
+}
+
+function toGeoJSONPolygons(feature: Feature): polygonClipping.MultiPolygon {
+  const featureGeoJSON = format.writeFeatureObject(feature, {
+    featureProjection: map!.getView().getProjection(),
+  });
+  if (featureGeoJSON.geometry.type === 'Polygon') {
+    return [(featureGeoJSON.geometry as GeoJSONPolygon).coordinates as polygonClipping.Polygon];
+  }
+  return (featureGeoJSON.geometry as GeoJSONMultiPolygon)
+    .coordinates as polygonClipping.MultiPolygon;
+}
+
+function readPolygonFeature(properties: object, coordinates: polygonClipping.Polygon) {
+  return format.readFeature(
+    { type: 'Feature', properties, geometry: { type: 'Polygon', coordinates } },
+    { featureProjection: map!.getView().getProjection() },
+  ) as Feature<Polygon>;
 }
 
+const TASK_DISPLAY_DELAY = 300;
+
 /**
- * Snap a point to the nearest position on a polyline if within threshold.
- * Modifies the point in place so that vertices on both sides of the split
- * gap collapse to the exact same coordinates on the split line.
+ * Run a geometry operation in the worker. Operations that take longer than a
+ * moment are shown as the current geometry task, which can be cancelled.
+ * Resolves undefined if the operation was cancelled.
  */
-function snapToLine(point: number[], lineCoords: number[][], thresholdSq: number): void {
-  let minDistSq = Infinity;
-  let closestX = 0;
-  let closestY = 0;
-
-  for (let i = 0; i < lineCoords.length - 1; i++) {
-    const x1 = lineCoords[i]![0]!;
-    const y1 = lineCoords[i]![1]!;
-    const x2 = lineCoords[i + 1]![0]!;
-    const y2 = lineCoords[i + 1]![1]!;
-    const dx = x2 - x1;
-    const dy = y2 - y1;
-    const lenSq = dx * dx + dy * dy;
-    const t =
-      lenSq === 0
-        ? 0
-        : Math.max(0, Math.min(1, ((point[0]! - x1) * dx + (point[1]! - y1) * dy) / lenSq));
-    const px = x1 + t * dx;
-    const py = y1 + t * dy;
-    const distSq = (point[0]! - px) ** 2 + (point[1]! - py) ** 2;
-    if (distSq < minDistSq) {
-      minDistSq = distSq;
-      closestX = px;
-      closestY = py;
-    }
+async function runGeometry<O extends keyof GeometryOperations>(
+  label: string,
+  operation: O,
+  input: GeometryOperations[O]['input'],
+): Promise<GeometryOperations[O]['output'] | undefined> {
+  const controller = new AbortController();
+  const task: GeometryTask = { label, progress: undefined, cancel: () => controller.abort() };
+  const displayTimeout = setTimeout(() => (geometryTask.value = { ...task }), TASK_DISPLAY_DELAY);
+  try {
+    return await geometryEngine.run(operation, input, {
+      signal: controller.signal,
+      onProgress: (done, total) => {
+        task.progress = (done / total) * 100;
+        if (geometryTask.value?.cancel === task.cancel) geometryTask.value = { ...task };
+      },
+    });
+  } catch (error) {
+    if (error instanceof GeometryCancelledError) return undefined;
+    geometryError.value = `${label} failed: ${(error as Error).message}`;
+    return undefined;
+  } finally {
+    clearTimeout(displayTimeout);
+    if (geometryTask.value?.cancel === task.cancel) geometryTask.value = undefined;
   }
+}
 
-  if (minDistSq <= thresholdSq) {
-    point[0] = closestX;
-    point[1] = closestY;
-  }
+/**
+ * Replace a field with the parts of a split, unless it was removed or
+ * changed while the worker was busy.
+ */
+function applySplit(feature: Feature, revision: number, parts: polygonClipping.MultiPolygon) {
+  if (!editSource.hasFeature(feature) || feature.getGeometry()!.getRevision() !== revision) return;
+  if (parts.length === 0) return;
+  // Split parts keep the attributes of the original field
+  const properties = editedAttributes(attributesOf(feature));
+  // A single polygon result still replaces the field in case edges were trimmed
+  applyEdit(
+    [feature],
+    parts.map((poly) => readPolygonFeature(properties, poly)),
+  );
 }
 
-function splitPolygon(splitFeature: Feature) {
+/**
+ * Split a single field along a drawn line. The field is the split target if
+ * one was clicked, otherwise the first field the line runs through.
+ */
+async function splitPolygon(splitFeature: Feature, target: Feature | undefined) {
   const lineGeom = splitFeature.getGeometry();
-  if (!lineGeom || lineGeom.getType() !== 'LineString') return;
+  if (!(lineGeom instanceof LineString)) return;
+
+  const feature = target ?? firstFieldAlongLine(lineGeom.getCoordinates());
+  if (!feature) return;
+  const revision = feature.getGeometry()!.getRevision();
 
   // Write the line as GeoJSON in EPSG:4326 for polygon-clipping
   const lineGeoJSON = format.writeFeatureObject(splitFeature, {
     featureProjection: map!.getView().getProjection(),
   });
-  const lineCoords = (lineGeoJSON.geometry as GeoJSONLineString).coordinates;
+  const line = (lineGeoJSON.geometry as GeoJSONLineString).coordinates;
 
-  // Create a thin buffer polygon around the line
-  const bufferDistance = 1e-8;
-  const bufferPoly = bufferLine(lineCoords, bufferDistance);
-  if (!bufferPoly) return;
-  const snapThresholdSq = (bufferDistance * 3) ** 2;
+  const parts = await runGeometry('Split', 'splitByLine', {
+    polygons: toGeoJSONPolygons(feature),
+    line,
+  });
+  if (parts) applySplit(feature, revision, parts);
+}
 
-  const featuresToAdd: Feature[] = [];
-  const featuresToRemove: Feature[] = [];
+/**
+ * Split a field into the parts inside and outside a drawn closed shape. The
+ * field is the split target if one was clicked, otherwise the first field the
+ * shape's outline runs through.
+ */
+async function splitPolygonByShape(shapeFeature: Feature, target: Feature | undefined) {
+  const shapeGeom = shapeFeature.getGeometry();
+  if (!(shapeGeom instanceof Polygon)) return;
 
-  for (const feature of editSource.getFeatures()) {
-    const geom = feature.getGeometry();
-    if (!geom) continue;
-    const type = geom.getType();
-    if (type !== 'Polygon' && type !== 'MultiPolygon') continue;
+  const feature = target ?? firstFieldAlongLine(shapeGeom.getCoordinates()[0]!);
+  if (!feature) return;
+  const revision = feature.getGeometry()!.getRevision();
 
-    const featureGeoJSON = format.writeFeatureObject(feature, {
-      featureProjection: map!.getView().getProjection(),
-    });
+  const parts = await runGeometry('Split', 'splitByShape', {
+    polygons: toGeoJSONPolygons(feature),
+    shape: toGeoJSONPolygons(shapeFeature),
+  });
+  if (parts) applySplit(feature, revision, parts);
+}
 
-    let polyCoords: number[][][][];
-    if (featureGeoJSON.geometry.type === 'Polygon') {
-      polyCoords = [(featureGeoJSON.geometry as GeoJSONPolygon).coordinates];
-    } else {
-      polyCoords = (featureGeoJSON.geometry as GeoJSONMultiPolygon).coordinates;
-    }
+function setSplitTarget(feature: Feature | undefined) {
+  splitTarget?.setStyle(undefined);
+  splitTarget = feature;
+  splitTarget?.setStyle(mergeHighlightStyle);
+}
 
-    const result = polygonClipping.difference(
-      polyCoords as polygonClipping.MultiPolygon,
-      bufferPoly,
-    );
+function activateSplitMode() {
+  if (!map) return;
+  removeInteractions();
 
-    if (result.length === 0) continue;
+  let drawing = false;
+
+  // The first click on a field chooses it as split target instead of starting
+  // to draw. Clicks outside of fields start drawing right away.
+  drawLine = new Draw({
+    source: splitSource,
+    type: splitShape.value === 'polygon' ? 'Polygon' : 'LineString',
+    condition: (event) => {
+      if (drawing || splitTarget) return true;
+      const feature = map!.forEachFeatureAtPixel(event.pixel, (f) => f, {
+        layerFilter: (layer) => layer === editLayer,
+      }) as Feature | undefined;
+      if (!feature) return true;
+      setSplitTarget(feature);
+      return false;
+    },
+  });
+  snap = new Snap({ source: editSource });
+  gridSnap = new Snap({ source: gridSnapSource });
 
-    // Snap vertices near the split line back onto it to collapse the buffer gap,
-    // so result polygons share exact boundary vertices along the split.
-    for (const poly of result) {
-      for (let r = poly.length - 1; r >= 0; r--) {
-        const ring = poly[r]!;
-        for (const point of ring) {
-          snapToLine(point, lineCoords, snapThresholdSq);
-        }
-        // Remove consecutive duplicate vertices
-        for (let c = ring.length - 1; c > 0; c--) {
-          if (ring[c]![0] === ring[c - 1]![0] && ring[c]![1] === ring[c - 1]![1]) {
-            ring.splice(c, 1);
-          }
-        }
-        if (ring.length < 4) {
-          poly.splice(r, 1);
-        }
-      }
+  drawLine.on('drawstart', () => {
+    drawing = true;
+  });
+  drawLine.on('drawabort', () => {
+    drawing = false;
+  });
+  drawLine.on('drawend', (event) => {
+    drawing = false;
+    if (splitShape.value === 'polygon') {
+      splitPolygonByShape(event.feature, splitTarget);
+    } else {
+      splitPolygon(event.feature, splitTarget);
     }
+    setSplitTarget(undefined);
+    // Clear the split line after clipping
+    setTimeout(() => splitSource.clear(), 0);
+  });
 
-    // Only process if the split actually produced multiple polygons
-    if (result.length <= 1 && polyCoords.length <= 1) {
-      // Single polygon result — still update geometry in case edges were trimmed
-      if (result.length === 1) {
-        const resultFeature = format.readFeature(
-          { type: 'Feature', geometry: { type: 'Polygon', coordinates: result[0] } },
-          { featureProjection: map!.getView().getProjection() },
-        ) as Feature<Polygon>;
-        featuresToRemove.push(feature);
-        featuresToAdd.push(resultFeature);
-      }
-      continue;
-    }
+  map.addInteraction(drawLine);
+  map.addInteraction(snap);
+  map.addInteraction(gridSnap);
+}
 
-    // Multiple polygons — create individual features for each
-    featuresToRemove.push(feature);
-    for (const poly of result) {
-      const resultFeature = format.readFeature(
-        { type: 'Feature', geometry: { type: 'Polygon', coordinates: poly } },
-        { featureProjection: map!.getView().getProjection() },
-      ) as Feature<Polygon>;
-      featuresToAdd.push(resultFeature);
-    }
+/**
+ * Replace the section of a field boundary between the start and end of a
+ * drawn line with the line, see `reshapeRing`.
+ */
+function reshapePolygon(lineFeature: Feature) {
+  const lineGeom = lineFeature.getGeometry();
+  if (!(lineGeom instanceof LineString) || !map) return;
+  const lineCoords = lineGeom.getCoordinates();
+  const start = lineCoords[0]!;
+  const end = lineCoords[lineCoords.length - 1]!;
+  const toleranceSq = (map.getView().getResolution()! * RESHAPE_TOLERANCE) ** 2;
+
+  // Candidate rings that both ends of the line lie on
+  const candidates: {
+    feature: Feature;
+    polygonIndex: number;
+    ringIndex: number;
+    from: RingLocation;
+    to: RingLocation;
+  }[] = [];
+  const extent = buffer(lineGeom.getExtent(), Math.sqrt(toleranceSq));
+  for (const feature of editSource.getFeaturesInExtent(extent)) {
+    polygonCoordinates(feature).forEach((polygon, polygonIndex) => {
+      polygon.forEach((ring, ringIndex) => {
+        const from = locateOnRing(start, ring);
+        const to = locateOnRing(end, ring);
+        if (from.distanceSq <= toleranceSq && to.distanceSq <= toleranceSq) {
+          candidates.push({ feature, polygonIndex, ringIndex, from, to });
+        }
+      });
+    });
   }
+  if (candidates.length === 0) return;
+
+  // On a shared boundary, prefer the field the line runs into
+  const midpoint = lineGeom.getCoordinateAt(0.5);
+  const target =
+    candidates.find((c) => c.feature.getGeometry()!.intersectsCoordinate(midpoint)) ??
+    candidates[0]!;
+  const { feature, polygonIndex, ringIndex, from, to } = target;
+  const reshaped = reshapeRing(
+    polygonCoordinates(feature),
+    polygonIndex,
+    ringIndex,
+    lineCoords,
+    from,
+    to,
+  );
+  if (!reshaped) return;
 
-  for (const f of featuresToRemove) {
-    editSource.removeFeature(f);
-  }
-  for (const f of featuresToAdd) {
-    editSource.addFeature(f);
+  const before = feature.getGeometry()!.clone();
+  feature.setGeometry(
+    reshaped.length === 1 ? new Polygon(reshaped[0]!) : new MultiPolygon(reshaped),
+  );
+  if (avoidOverlap.value) {
+    clipToNeighbours(feature);
   }
+  markCorrected(feature);
+  recordCommand({ modified: [{ feature, before, after: feature.getGeometry()!.clone() }] });
 }
 
-function activateSplitMode() {
+function activateReshapeMode() {
   if (!map) return;
   removeInteractions();
 
@@ -347,9 +716,8 @@ function activateSplitMode() {
   gridSnap = new Snap({ source: gridSnapSource });
 
   drawLine.on('drawend', (event) => {
-    saveSnapshot();
-    splitPolygon(event.feature);
-    // Clear the split line after clipping
+    reshapePolygon(event.feature);
+    // Clear the reshape line after applying it
     setTimeout(() => splitSource.clear(), 0);
   });
 
@@ -358,6 +726,54 @@ function activateSplitMode() {
   map.addInteraction(gridSnap);
 }
 
+/**
+ * Subtract a drawn polygon from every field it overlaps, in the worker. Cuts
+ * inside a field become holes, cuts across an edge reshape the field, and
+ * fields cut into several parts become separate fields with the same
+ * attributes. Fields changed while the worker was busy are left as they are.
+ */
+async function cutPolygons(cutFeature: Feature) {
+  const features = editSource.getFeaturesInExtent(cutFeature.getGeometry()!.getExtent());
+  if (features.length === 0) return;
+  const revisions = features.map((feature) => feature.getGeometry()!.getRevision());
+
+  const results = await runGeometry('Cut', 'cut', {
+    features: features.map(toGeoJSONPolygons),
+    shape: toGeoJSONPolygons(cutFeature),
+  });
+  if (!results) return;
+
+  const featuresToAdd: Feature[] = [];
+  const featuresToRemove: Feature[] = [];
+  results.forEach((parts, i) => {
+    const feature = features[i]!;
+    if (!parts || !editSource.hasFeature(feature)) return;
+    if (feature.getGeometry()!.getRevision() !== revisions[i]) return;
+    featuresToRemove.push(feature);
+    const properties = editedAttributes(attributesOf(feature));
+    featuresToAdd.push(...parts.map((poly) => readPolygonFeature(properties, poly)));
+  });
+  applyEdit(featuresToRemove, featuresToAdd);
+}
+
+function activateCutMode() {
+  if (!map) return;
+  removeInteractions();
+
+  drawPolygon = new Draw({ source: splitSource, type: 'Polygon' });
+  snap = new Snap({ source: editSource });
+  gridSnap = new Snap({ source: gridSnapSource });
+
+  drawPolygon.on('drawend', (event) => {
+    // Clear the cut polygon once the fields have been cut
+    cutPolygons(event.feature).finally(() => splitSource.clear());
+  });
+
+  map.addInteraction(drawPolygon);
+  map.addInteraction(snap);
+  map.addInteraction(gridSnap);
+}
+
 function activateDeleteMode() {
   if (!map) return;
   removeInteractions();
@@ -369,37 +785,39 @@ function activateDeleteMode() {
       layerFilter: (layer) => layer === editLayer,
     });
     if (feature) {
-      saveSnapshot();
-      editSource.removeFeature(feature as Feature);
+      applyEdit([feature as Feature], []);
     }
   };
   map.on('singleclick', deleteClickHandler as never);
 }
 
-function mergeFeatures(target: Feature, source: Feature): Feature | undefined {
-  const projection = map!.getView().getProjection();
-  const targetGeoJSON = format.writeFeatureObject(target, { featureProjection: projection });
-  const sourceGeoJSON = format.writeFeatureObject(source, { featureProjection: projection });
-
-  const getCoords = (gj: typeof targetGeoJSON): number[][][][] => {
-    if (gj.geometry.type === 'Polygon') {
-      return [(gj.geometry as GeoJSONPolygon).coordinates];
-    }
-    return (gj.geometry as GeoJSONMultiPolygon).coordinates;
-  };
-
-  const result = polygonClipping.union(
-    getCoords(targetGeoJSON) as polygonClipping.MultiPolygon,
-    getCoords(sourceGeoJSON) as polygonClipping.MultiPolygon,
+/**
+ * Union fields into one. Attributes are merged in order, so the first field
+ * wins where they conflict. Resolves undefined if the fields were changed
+ * while the worker was busy.
+ */
+async function mergeFeatures(features: Feature[]): Promise<Feature | undefined> {
+  if (features.length < 2) return undefined;
+  const revisions = features.map((feature) => feature.getGeometry()!.getRevision());
+
+  const result = await runGeometry('Merge', 'merge', { features: features.map(toGeoJSONPolygons) });
+  if (!result || result.length === 0) return undefined;
+  const unchanged = features.every(
+    (feature, i) =>
+      editSource.hasFeature(feature) && feature.getGeometry()!.getRevision() === revisions[i],
   );
-
-  if (result.length === 0) return undefined;
+  if (!unchanged) return undefined;
 
   const geomType = result.length === 1 ? 'Polygon' : 'MultiPolygon';
   const coordinates = result.length === 1 ? result[0] : result;
+  const properties = features.map(attributesOf).reduce((a, b) => mergeAttributes(a, b));
   return format.readFeature(
-    { type: 'Feature', geometry: { type: geomType, coordinates } },
-    { featureProjection: projection },
+    {
+      type: 'Feature',
+      properties: editedAttributes(properties),
+      geometry: { type: geomType, coordinates },
+    },
+    { featureProjection: map!.getView().getProjection() },
   ) as Feature;
 }
 
@@ -409,7 +827,7 @@ function activateMergeMode() {
 
   map.getTargetElement()?.style.setProperty('cursor', 'pointer');
 
-  mergeClickHandler = (event: MapBrowserEvent<PointerEvent>) => {
+  mergeClickHandler = async (event: MapBrowserEvent<PointerEvent>) => {
     const feature = map!.forEachFeatureAtPixel(event.pixel, (f) => f, {
       layerFilter: (layer) => layer === editLayer,
     }) as Feature | undefined;
@@ -425,12 +843,12 @@ function activateMergeMode() {
     if (feature === mergeTarget) return;
 
     // Second click — merge with target
-    const merged = mergeFeatures(mergeTarget, feature);
-    if (merged) {
-      saveSnapshot();
-      editSource.removeFeature(mergeTarget);
-      editSource.removeFeature(feature);
-      editSource.addFeature(merged);
+    const target = mergeTarget;
+    const merged = await mergeFeatures([target, feature]);
+    // The mode may have changed while merging
+    if (merged && mergeTarget === target) {
+      mergeTarget.setStyle(undefined);
+      applyEdit([mergeTarget, feature], [merged]);
       // Highlight the merged result as the new target
       mergeTarget = merged;
       mergeTarget.setStyle(mergeHighlightStyle);
@@ -439,16 +857,137 @@ function activateMergeMode() {
   map.on('singleclick', mergeClickHandler as never);
 }
 
+/**
+ * Set an attribute of a field on the edit layer as an undoable edit.
+ */
+export function setFeatureAttribute(feature: Feature, key: string, value: unknown) {
+  const before = feature.get(key);
+  if (before === value) return;
+  if (value === undefined) feature.unset(key);
+  else feature.set(key, value);
+  recordCommand({ attributes: [{ feature, key, before, after: value }] });
+  // Refresh the attribute editor
+  if (feature === selectedFeature.value) selectFeature(feature);
+}
+
+/**
+ * Set an attribute of the selected field from the attribute editor. Empty
+ * values remove the attribute.
+ */
+function updateAttribute(key: string, value: string | null | undefined) {
+  if (!selectedFeature.value) return;
+  setFeatureAttribute(selectedFeature.value, key, value === '' ? undefined : (value ?? undefined));
+}
+
+/**
+ * Select a field of the edit layer for the attribute editor or review, and
+ * highlight it.
+ */
+export function selectEditFeature(feature: Feature | undefined) {
+  selectedFeature.value?.setStyle(undefined);
+  feature?.setStyle(selectHighlightStyle);
+  selectFeature(feature);
+}
+
+function activateInspectMode() {
+  if (!map) return;
+  removeInteractions();
+
+  map.getTargetElement()?.style.setProperty('cursor', 'pointer');
+
+  selectClickHandler = (event: MapBrowserEvent<PointerEvent>) => {
+    const feature = map!.forEachFeatureAtPixel(event.pixel, (f) => f, {
+      layerFilter: (layer) => layer === editLayer,
+    }) as Feature | undefined;
+    selectEditFeature(feature);
+  };
+  map.on('singleclick', selectClickHandler as never);
+}
+
+function activateSelectMode() {
+  if (!map) return;
+  removeInteractions();
+
+  // Click selects, shift-click toggles, Ctrl/Cmd-drag adds all fields in a box
+  select = new Select({ layers: [editLayer], style: selectHighlightStyle });
+  dragBox = new DragBox({ condition: platformModifierKeyOnly });
+
+  const selected = select.getFeatures();
+  selected.on(['add', 'remove'], () => {
+    selectionCount.value = selected.getLength();
+  });
+  dragBox.on('boxend', () => {
+    const extent = dragBox!.getGeometry().getExtent();
+    editSource.forEachFeatureIntersectingExtent(extent, (feature) => {
+      if (!selected.getArray().includes(feature)) {
+        selected.push(feature);
+      }
+    });
+  });
+
+  map.addInteraction(select);
+  map.addInteraction(dragBox);
+}
+
+export function selectedFeatures(): Feature[] {
+  return select?.getFeatures().getArray().slice() ?? [];
+}
+
+function deleteSelected() {
+  const features = selectedFeatures();
+  select?.getFeatures().clear();
+  applyEdit(features, []);
+}
+
+async function mergeSelected() {
+  const features = selectedFeatures();
+  const merged = await mergeFeatures(features);
+  if (!merged) return;
+  applyEdit(features, [merged]);
+  if (select) {
+    select.getFeatures().clear();
+    select.getFeatures().push(merged);
+  }
+}
+
+/**
+ * Replace the geometries of several fields as a single undo step.
+ */
+export function modifyGeometries(changes: { feature: Feature; geometry: Geometry }[]) {
+  if (changes.length === 0) return;
+  const modified = changes.map(({ feature, geometry }) => {
+    const before = feature.getGeometry()!.clone();
+    feature.setGeometry(geometry);
+    markCorrected(feature);
+    return { feature, before, after: geometry.clone() };
+  });
+  recordCommand({ modified });
+}
+
+watch(splitShape, () => {
+  if (editMode.value === 'split') {
+    activateSplitMode();
+  }
+});
+
 watch(editMode, (mode) => {
   if (!map) return;
   if (mode === 'draw') {
     activateDrawMode();
   } else if (mode === 'split') {
     activateSplitMode();
+  } else if (mode === 'reshape') {
+    activateReshapeMode();
+  } else if (mode === 'cut') {
+    activateCutMode();
   } else if (mode === 'delete') {
     activateDeleteMode();
   } else if (mode === 'merge') {
     activateMergeMode();
+  } else if (mode === 'attributes' || mode === 'review') {
+    activateInspectMode();
+  } else if (mode === 'select') {
+    activateSelectMode();
   } else {
     removeInteractions();
   }
@@ -460,13 +999,41 @@ export function initEdit(mapInstance: Map) {
   map.addLayer(splitLayer);
 }
 
+function readImportedFeatures(geojson: object) {
+  const features = format.readFeatures(geojson, {
+    featureProjection: map!.getView().getProjection(),
+  }) as Feature[];
+  features.forEach(normalizeImportedAttributes);
+  return features;
+}
+
+/**
+ * Import predictions for the selected grid cell as one undoable edit. They
+ * replace the cell's baseline for comparing edits, and fields derived from the
+ * same predictions, e.g. when a cell is vectorized again.
+ */
 function importGeoJSON(geojson: object) {
   if (!map) return;
-  saveSnapshot();
-  const features = format.readFeatures(geojson, {
-    featureProjection: map.getView().getProjection(),
-  });
+  const features = readImportedFeatures(geojson);
+  const sourceIds = new Set(features.map((feature) => feature.get('source_id')));
+  sourceIds.delete(undefined);
+  const removed = editSource
+    .getFeatures()
+    .filter((feature) => sourceIds.has(feature.get('source_id')));
+  const cellExtent = gridSnapSource.getFeatures()[0]?.getGeometry()?.getExtent();
+  const baseline = {
+    added: features.map((feature) => feature.clone()),
+    removed: cellExtent ? baselineSource.getFeaturesInExtent(cellExtent) : [],
+  };
+  for (const feature of removed) {
+    editSource.removeFeature(feature);
+  }
   editSource.addFeatures(features);
+  for (const feature of baseline.removed) {
+    baselineSource.removeFeature(feature);
+  }
+  baselineSource.addFeatures(baseline.added);
+  recordCommand({ added: features, removed, baseline });
   const extent = editSource.getExtent();
   if (extent && !isEmpty(extent)) {
     const size = map.getSize();
@@ -479,58 +1046,101 @@ function importGeoJSON(geojson: object) {
   }
 }
 
-function exportGeoJSON(gridCellId: string) {
-  if (!map) return;
-  const projection = map.getView().getProjection();
-
-  // Get the grid cell geometry for clipping
-  const gridFeature = gridSnapSource.getFeatures()[0];
-  if (!gridFeature) return;
-  const gridGeoJSON = format.writeFeatureObject(gridFeature, { featureProjection: projection });
-  const gridCoords = (gridGeoJSON.geometry as GeoJSONPolygon).coordinates;
-
-  const exportFeatures: object[] = [];
-
-  for (const feature of editSource.getFeatures()) {
-    const geom = feature.getGeometry();
-    if (!geom) continue;
-    const type = geom.getType();
-    if (type !== 'Polygon' && type !== 'MultiPolygon') continue;
-
-    const featureGeoJSON = format.writeFeatureObject(feature, { featureProjection: projection });
-    let polyCoords: number[][][][];
-    if (featureGeoJSON.geometry.type === 'Polygon') {
-      polyCoords = [(featureGeoJSON.geometry as GeoJSONPolygon).coordinates];
-    } else {
-      polyCoords = (featureGeoJSON.geometry as GeoJSONMultiPolygon).coordinates;
-    }
+/**
+ * Add features of an import source to the edit layer, and a copy of them to
+ * the baseline, without recording an undo step. Used to load the part of a
+ * model run around a grid cell when the cell is opened.
+ */
+export function addImportedFeatures(geojson: object): Feature[] {
+  if (!map) return [];
+  const features = readImportedFeatures(geojson);
+  editSource.addFeatures(features);
+  baselineSource.addFeatures(features.map((feature) => feature.clone()));
+  return features;
+}
 
-    const clipped = polygonClipping.intersection(
-      polyCoords as polygonClipping.MultiPolygon,
-      [gridCoords] as unknown as polygonClipping.MultiPolygon,
+/**
+ * Replace features of the edit layer with features read from GeoJSON, without
+ * recording an undo step. Used to restore persisted drafts, so the undo history
+ * is reset as well.
+ */
+export function loadFeatures(geojson: object | undefined, replace: Feature[]) {
+  if (!map) return;
+  for (const feature of replace) {
+    editSource.removeFeature(feature);
+  }
+  if (geojson) {
+    editSource.addFeatures(
+      format.readFeatures(geojson, {
+        featureProjection: map.getView().getProjection(),
+      }),
     );
+  }
+  clearHistory();
+}
+
+/**
+ * Replace features of the edit layer with features read from GeoJSON, as one
+ * undoable command. Used to load a submitted version over the local edits.
+ */
+export function replaceFeatures(geojson: object, replace: Feature[]) {
+  if (!map) return;
+  const features = format.readFeatures(geojson, {
+    featureProjection: map.getView().getProjection(),
+  }) as Feature[];
+  applyEdit(replace, features);
+}
 
-    if (clipped.length === 0) continue;
+/**
+ * The fields of the edit layer clipped to the selected grid cell, as GeoJSON
+ * features in EPSG:4326 with their attributes. Rejected predictions are left
+ * out. Resolves undefined if the grid cell geometry has not loaded, or if the
+ * clipping was cancelled or failed.
+ */
+export async function clippedCellFeatures(): Promise<GeoJSONFeature<GeoJSONPolygon>[] | undefined> {
+  // Without the grid cell geometry, an empty result would replace the fields
+  const gridFeature = gridSnapSource.getFeatures()[0];
+  if (!map || !gridFeature) return undefined;
+
+  // Rejected predictions are kept on the map for review, but are not fields
+  const features = editSource
+    .getFeaturesInExtent(gridFeature.getGeometry()!.getExtent())
+    .filter((feature) => feature.get(REVIEW_STATUS) !== 'rejected');
+  const clipped = await runGeometry('Clipping to the grid cell', 'clip', {
+    features: features.map(toGeoJSONPolygons),
+    cell: toGeoJSONPolygons(gridFeature),
+  });
+  if (!clipped) return undefined;
 
-    for (const poly of clipped) {
-      exportFeatures.push({
+  return clipped.flatMap((polygons, index) =>
+    polygons.map(
+      (poly): GeoJSONFeature<GeoJSONPolygon> => ({
         type: 'Feature',
-        properties: {},
+        properties: attributesOf(features[index]!),
         geometry: { type: 'Polygon', coordinates: poly },
-      });
-    }
-  }
+      }),
+    ),
+  );
+}
 
-  const geojson = {
-    type: 'FeatureCollection',
-    features: exportFeatures,
-  };
+async function exportFields(gridCellId: string, exporterId: string) {
+  if (!map) return;
+  exportError.value = undefined;
+  const exporter = getExporter(exporterId);
+  const clipped = await clippedCellFeatures();
+  if (!clipped) return;
+  let blob: Blob;
+  try {
+    blob = await exporter.write(toFiboaFeatures(clipped, gridCellId));
+  } catch (error) {
+    exportError.value = `Could not write ${exporter.name}: ${(error as Error).message}`;
+    return;
+  }
 
-  const blob = new Blob([JSON.stringify(geojson)], { type: 'application/geo+json' });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `fields-${gridCellId}.geojson`;
+  a.download = `fields-${gridCellId}.${exporter.extension}`;
   a.click();
   setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
@@ -538,11 +1148,24 @@ function exportGeoJSON(gridCellId: string) {
 export function useEdit() {
   return {
     editMode,
+    avoidOverlap,
+    splitShape,
     editSource,
     gridSnapSource,
+    cellGeometryLoaded,
+    baselineSource,
+    selectionCount,
+    deleteSelected,
+    mergeSelected,
     canUndo,
+    canRedo,
     undo,
+    redo,
     importGeoJSON,
-    exportGeoJSON,
+    exportFields,
+    exportError,
+    updateAttribute,
+    geometryTask,
+    geometryError,
   };
 }
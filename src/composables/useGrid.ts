@@ -1,173 +1,173 @@
 import { ref } from 'vue';
 import type VectorTileLayer from 'ol/layer/VectorTile';
-import OlMap from 'ol/Map';
+import type VectorLayer from 'ol/layer/Vector';
 import type Map from 'ol/Map';
-import View from 'ol/View';
 import type MapBrowserEvent from 'ol/MapBrowserEvent';
-import { MapboxVectorLayer, setFeatureState } from 'ol-mapbox-style';
+import { setFeatureState } from 'ol-mapbox-style';
 import type LayerGroup from 'ol/layer/Group';
-import { Feature as OlFeature } from 'ol';
-import { Polygon } from 'ol/geom';
 import type { FeatureLike } from 'ol/Feature';
-import RenderFeature, { toFeature } from 'ol/render/Feature';
+import { Fill, Stroke, Style } from 'ol/style';
 import { fromLonLat } from 'ol/proj';
-import { inverse } from 'mgrs';
-import { boundingExtent } from 'ol/extent';
-import type { Polygon as GeoJSONPolygon, MultiPolygon as GeoJSONMultiPolygon } from 'geojson';
-import polygonClipping from 'polygon-clipping';
-import GeoJSON from 'ol/format/GeoJSON';
+import {
+  createLocalGridProvider,
+  createMgrsGridProvider,
+  createPMTilesGridProvider,
+  gridCellExtent as mgrsCellExtent,
+  GridGeometryError,
+  type GridProvider,
+} from '@/grid';
 import { useEdit } from './useEdit';
 
+/** Style source of the grid */
+const GRID_SOURCE = 'ftw-grid';
+
+/**
+ * Grid provider from the configuration: `style` for the grid of the map style
+ * (default), `mgrs` for cells computed without network access, or `local` for
+ * the PMTiles or GeoJSON grid at `VITE_GRID_URL`.
+ */
+const GRID_PROVIDER = import.meta.env.VITE_GRID_PROVIDER ?? 'style';
+const GRID_URL = import.meta.env.VITE_GRID_URL;
+/** Vector tile layer with the cells of PMTiles grids */
+const GRID_LAYER = import.meta.env.VITE_GRID_LAYER ?? 'ftw_grid4';
+
 const { editMode, gridSnapSource } = useEdit();
 
 const gridVisible = ref(false);
+/** Whether the grid only shows the cells around the view center */
+const gridPartial = ref(false);
 const selectedGridCellId = ref<string | undefined>(undefined);
+const gridCellError = ref<string>();
+const gridProviderName = ref<string>();
 
-let grid: VectorTileLayer | undefined;
+let styleGrid: VectorTileLayer | undefined;
+let grid: VectorTileLayer | VectorLayer | undefined;
 let gridMap: Map | undefined;
 let gridMapGroup: LayerGroup | undefined;
+let gridProvider: GridProvider | undefined;
+let gridProviderLoaded: Promise<unknown> = Promise.resolve();
+
+// Same look as the grid layers of the map style
+const gridCellStyle = new Style({
+  fill: new Fill({ color: 'rgba(0, 0, 0, 0.4)' }),
+  stroke: new Stroke({ color: 'rgba(0, 255, 255, 0.3)', width: 1.2 }),
+});
+const selectedGridCellStyle = new Style({
+  stroke: new Stroke({ color: 'rgba(0, 255, 255, 1)', width: 1.2 }),
+});
+
+function gridStyle(feature: FeatureLike) {
+  return feature.get('id') === selectedGridCellId.value ? selectedGridCellStyle : gridCellStyle;
+}
 
 const updateGridVisibility = () => {
   if (grid) {
     gridVisible.value = grid.isVisible();
   }
+  gridPartial.value = gridVisible.value && !!gridProvider?.isPartial?.();
 };
 
 /**
- * Compute the projected extent of a 2×2 km grid cell from its MGRS ID.
- * Uses simple easting/northing offset to find the NE 1km cell, then
- * takes the SW corner of the SW cell and NE corner of the NE cell.
+ * Compute the projected extent of a grid cell from its ID, with the grid
+ * provider if it knows the cell.
  */
-function gridCellExtent(gridCellId: string) {
-  const mgrs = gridCellId.replace(/^ftw-/, '');
-  const match = mgrs.match(/^(\d{1,2}[A-Z][A-Z]{2})(\d+)$/);
-  if (!match) return undefined;
-  const prefix = match[1]!;
-  const digits = match[2]!;
-  const half = digits.length / 2;
-  const easting = parseInt(digits.slice(0, half), 10);
-  const northing = parseInt(digits.slice(half), 10);
-  const pad = (n: number) => n.toString().padStart(half, '0');
-  const swBbox = inverse(prefix + pad(easting) + pad(northing));
-  const neBbox = inverse(prefix + pad(easting + 1) + pad(northing + 1));
-  const ll: [number, number] = [swBbox[0], swBbox[1]];
-  const ur: [number, number] = [neBbox[2], neBbox[3]];
-  return boundingExtent([fromLonLat(ll), fromLonLat(ur)]);
+export function gridCellExtent(gridCellId: string) {
+  return gridProvider ? gridProvider.cellExtent(gridCellId) : mgrsCellExtent(gridCellId);
 }
 
-// ---- Offscreen map for fetching accurate grid cell geometry from PMTiles ----
-
-const format = new GeoJSON();
-
-let offscreenMap: Promise<Map> | undefined;
-let offscreenGrid: Promise<VectorTileLayer> | undefined;
-
-async function getOffscreenGrid(): Promise<VectorTileLayer> {
-  if (!offscreenGrid) {
-    const gridLayer = new MapboxVectorLayer({
-      styleUrl: './style.json',
-      source: 'ftw-grid',
-    });
-    offscreenGrid = new Promise((resolve) => {
-      const source = gridLayer.getSource()!;
-      source.on('change', function unregister() {
-        if (source.getState() !== 'ready') {
-          return;
-        }
-        source.un('change', unregister);
-        resolve(gridLayer);
-      });
-    });
+/**
+ * Read the grid cell geometry straight from the PMTiles archive of the style's
+ * grid source.
+ */
+function createStyleGridProvider(mapGroup: LayerGroup) {
+  const style = mapGroup.get('mapbox-style') as {
+    sources: Record<string, { url?: string }>;
+    layers: { source?: string; 'source-layer'?: string }[];
+  };
+  const url = style.sources[GRID_SOURCE]?.url;
+  const layer = style.layers.find((layer) => layer.source === GRID_SOURCE && layer['source-layer']);
+  if (!url?.startsWith('pmtiles://') || !layer) {
+    throw new GridGeometryError(`The ${GRID_SOURCE} style source is not a PMTiles archive`);
   }
-  return offscreenGrid;
+  return createPMTilesGridProvider({
+    name: 'FTW grid',
+    source: url.replace('pmtiles://', ''),
+    layer: layer['source-layer']!,
+  });
 }
 
-async function getOffscreenMap(): Promise<Map> {
-  if (!offscreenMap) {
-    offscreenMap = new Promise(async (resolve) => {
-      const map = new OlMap({
-        target: document.createElement('div'),
-        layers: [await getOffscreenGrid()],
-        view: new View({ center: [0, 0], zoom: 2 }),
-        controls: [],
-        interactions: [],
-        pixelRatio: 1,
-      });
-      map.setSize([512, 512]);
-      resolve(map);
-    });
+async function createConfiguredGridProvider(mapGroup: LayerGroup) {
+  switch (GRID_PROVIDER) {
+    case 'mgrs':
+      return createMgrsGridProvider();
+    case 'local':
+      if (!GRID_URL) {
+        throw new GridGeometryError('VITE_GRID_URL must point to the local grid');
+      }
+      return createLocalGridProvider(GRID_URL, GRID_LAYER);
+    default:
+      return createStyleGridProvider(mapGroup);
   }
-  return offscreenMap;
 }
 
 /**
- * Fetch the accurate grid cell polygon from PMTiles using an offscreen map.
- * Fits view to the computed extent, waits for tiles to render, collects all
- * features with the given ID (may be split at tile boundaries), and merges
- * them with polygon-clipping.
+ * Show the grid of a provider instead of the current one. Providers without
+ * a layer of their own use the grid layer of the map style.
  */
-async function fetchGridCellFeature(gridCellId: string): Promise<OlFeature<Polygon> | undefined> {
-  const extent = gridCellExtent(gridCellId);
-  if (!extent) return undefined;
-
-  const map = await getOffscreenMap();
-  const grid = await getOffscreenGrid();
-
-  // Fit view to grid cell extent
-  map.getView().fit(extent);
-  map.render();
-
-  // Wait for tiles to load
-  await new Promise<void>((resolve) => {
-    map.once('rendercomplete', () => resolve());
-  });
-
-  // Collect all features with the grid cell ID (may be duplicated across tile boundaries)
-  const features = grid.getFeaturesInExtent(extent);
-  const matching = features.filter((f: FeatureLike) => f.get('id') === gridCellId);
-  if (matching.length === 0) return undefined;
-
-  if (matching.length === 1) {
-    return toFeature(matching[0] as RenderFeature) as OlFeature<Polygon>;
+function setGridProvider(provider: GridProvider) {
+  const mapGroup = gridMapGroup!;
+  if (gridProvider) {
+    selectGridCellById(undefined);
+    if (gridProvider.layer) mapGroup.getLayers().remove(gridProvider.layer);
   }
-
-  // Merge fragments with polygon-clipping
-  const projection = map.getView().getProjection();
-  const polys: polygonClipping.MultiPolygon = [];
-  for (const f of matching) {
-    const gj = format.writeFeatureObject(toFeature(f as RenderFeature), {
-      featureProjection: projection,
-    });
-    if (gj.geometry.type === 'Polygon') {
-      polys.push((gj.geometry as GeoJSONPolygon).coordinates as polygonClipping.Polygon);
-    } else if (gj.geometry.type === 'MultiPolygon') {
-      polys.push(
-        ...((gj.geometry as GeoJSONMultiPolygon).coordinates as polygonClipping.MultiPolygon),
-      );
-    }
+  gridProvider = provider;
+  gridProviderName.value = provider.name;
+  styleGrid!.setVisible(!provider.layer);
+  if (provider.layer) {
+    provider.layer.setStyle(gridStyle);
+    const layers = mapGroup.getLayers();
+    layers.insertAt(layers.getArray().indexOf(styleGrid!) + 1, provider.layer);
   }
-  if (polys.length === 0) return undefined;
+  grid = provider.layer ?? styleGrid;
+  updateGridVisibility();
+}
 
-  const merged =
-    polys.length === 1 ? [polys[0]!] : polygonClipping.union(polys[0]!, ...polys.slice(1));
+function setGridCellSelected(mapGroup: LayerGroup, id: string, selected: boolean) {
+  if (grid === styleGrid) {
+    setFeatureState(mapGroup, { source: GRID_SOURCE, id }, { selected: selected || null });
+  } else {
+    grid?.changed();
+  }
+}
 
-  if (merged.length === 0) return undefined;
-  const coords = merged.length === 1 ? merged[0] : merged[0]; // always use first polygon
-  return format.readFeature(
-    { type: 'Feature', geometry: { type: 'Polygon', coordinates: coords } },
-    { featureProjection: projection },
-  ) as OlFeature<Polygon>;
+/**
+ * Find the ID of the grid cell containing a location.
+ */
+export async function gridCellIdAt(lonLat: [number, number]): Promise<string | undefined> {
+  await gridProviderLoaded;
+  return gridProvider?.cellIdAt(fromLonLat(lonLat));
 }
 
 /**
- * Set the grid snap feature from a grid cell ID.
- * Fetches the accurate geometry from PMTiles via the offscreen map.
+ * Set the grid snap feature from a grid cell ID, with the accurate geometry
+ * from the grid provider.
  */
 async function setGridSnapFeature(gridCellId: string) {
   gridSnapSource.clear();
-  const feature = await fetchGridCellFeature(gridCellId);
-  if (feature) {
-    gridSnapSource.addFeature(feature);
+  gridCellError.value = undefined;
+  await gridProviderLoaded;
+  if (!gridProvider) return;
+  try {
+    const feature = await gridProvider.cellFeature(gridCellId);
+    // Ignore results for a cell that has been deselected meanwhile
+    if (selectedGridCellId.value === gridCellId) {
+      gridSnapSource.addFeature(feature);
+    }
+  } catch (error) {
+    gridCellError.value =
+      error instanceof GridGeometryError
+        ? error.message
+        : `Could not load the geometry of grid cell ${gridCellId}`;
   }
 }
 
@@ -189,12 +189,10 @@ const selectGridCell = async (event: MapBrowserEvent, mapGroup: LayerGroup) => {
     layerFilter: (layer) => layer === grid,
   });
   if (selectedGridCellId.value) {
-    setFeatureState(
-      mapGroup,
-      { source: 'ftw-grid', id: selectedGridCellId.value },
-      { selected: null },
-    );
+    const previous = selectedGridCellId.value;
     selectedGridCellId.value = undefined;
+    setGridCellSelected(mapGroup, previous, false);
+    gridCellError.value = undefined;
     gridSnapSource.clear();
   }
   if (!feature) {
@@ -202,7 +200,7 @@ const selectGridCell = async (event: MapBrowserEvent, mapGroup: LayerGroup) => {
   }
   const id = feature.get('id');
   selectedGridCellId.value = id;
-  setFeatureState(mapGroup, { source: 'ftw-grid', id }, { selected: true });
+  setGridCellSelected(mapGroup, id, true);
   setGridSnapFeature(id);
   const extent = gridCellExtent(id);
   if (extent) {
@@ -228,9 +226,14 @@ export function initGrid(
   mapGroup: LayerGroup,
   initialGridCellId?: string,
 ) {
+  styleGrid = layer;
   grid = layer;
   gridMap = map;
   gridMapGroup = mapGroup;
+  gridProviderLoaded = createConfiguredGridProvider(mapGroup).then(setGridProvider, (error) => {
+    gridCellError.value =
+      error instanceof GridGeometryError ? error.message : 'Could not load the grid';
+  });
   map.on('rendercomplete', updateGridVisibility);
   map.on('singleclick', (event) => {
     if (editMode.value) return;
@@ -251,22 +254,20 @@ function selectGridCellById(id: string | undefined) {
 
   // Deselect current
   if (selectedGridCellId.value) {
-    setFeatureState(
-      mapGroup,
-      { source: 'ftw-grid', id: selectedGridCellId.value },
-      { selected: null },
-    );
+    const previous = selectedGridCellId.value;
+    selectedGridCellId.value = undefined;
+    setGridCellSelected(mapGroup, previous, false);
     gridSnapSource.clear();
   }
 
   if (!id) {
-    selectedGridCellId.value = undefined;
+    gridCellError.value = undefined;
     return;
   }
 
-  // Set the feature state immediately for styling
-  setFeatureState(mapGroup, { source: 'ftw-grid', id }, { selected: true });
+  // Set the selection immediately for styling
   selectedGridCellId.value = id;
+  setGridCellSelected(mapGroup, id, true);
 
   // Zoom and set snap/split geometry — all computed from the ID
   const extent = gridCellExtent(id);
@@ -276,10 +277,27 @@ function selectGridCellById(id: string | undefined) {
   setGridSnapFeature(id);
 }
 
+/**
+ * Use a local PMTiles or GeoJSON grid instead of the configured one.
+ */
+async function openGridFile(file: File) {
+  gridCellError.value = undefined;
+  try {
+    setGridProvider(await createLocalGridProvider(file, GRID_LAYER));
+  } catch (error) {
+    gridCellError.value =
+      error instanceof GridGeometryError ? error.message : `Could not read grid ${file.name}`;
+  }
+}
+
 export function useGrid() {
   return {
     gridVisible,
+    gridPartial,
     selectedGridCellId,
+    gridCellError,
+    gridProviderName,
     selectGridCellById,
+    openGridFile,
   };
 }
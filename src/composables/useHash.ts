@@ -1,48 +1,200 @@
 import { watch } from 'vue';
 import type Map from 'ol/Map';
+import type { Feature } from 'ol';
+import { fromLonLat, toLonLat } from 'ol/proj';
 import { useGrid } from './useGrid';
+import { selectEditFeature, useEdit, type EditMode } from './useEdit';
+import { useImagery } from './useImagery';
+import { useAttributes } from './useAttributes';
+
+/**
+ * State encoded in the URL hash, e.g.
+ * `#v=1&cell=ftw-33UUU9117&map=15.00/13.404954/52.520008/0.0&mode=draw&imagery=cloudless&feature=f1`.
+ * Plain `#ftw-…` hashes from before versioning only contain the grid cell.
+ */
+export interface HashState {
+  /**
+   * Grid cell being edited. Only one cell is encoded, as only one can be
+   * selected and edited at a time.
+   */
+  gridCellId?: string;
+  view?: { center: [number, number]; zoom: number; rotation: number };
+  mode?: EditMode;
+  imagery?: string;
+  /** ID or source ID of the field to focus */
+  feature?: string;
+}
+
+const HASH_VERSION = 1;
+const HISTORY_DELAY = 1000;
+const EDIT_MODES: EditMode[] = [
+  'draw',
+  'split',
+  'reshape',
+  'cut',
+  'delete',
+  'merge',
+  'attributes',
+  'review',
+  'select',
+];
 
 let map: Map;
 let suppressWatcher = false;
+let replaceNext = false;
+let historyTimeout: ReturnType<typeof setTimeout> | undefined;
+let initialState: HashState = {};
+let pendingFeature: string | undefined;
 
 const { selectedGridCellId, selectGridCellById } = useGrid();
+const { editMode, editSource } = useEdit();
+const { activeImageryId } = useImagery();
+const { selectedFeature } = useAttributes();
+
+export function parseHash(hash = window.location.hash): HashState {
+  const value = hash.replace('#', '');
+  if (!value) return {};
+  if (!value.includes('=')) return { gridCellId: value };
+
+  const params = new URLSearchParams(value);
+  const state: HashState = {};
+  const cell = params.get('cell');
+  if (cell) state.gridCellId = cell;
+  const [zoom, lon, lat, rotation] = (params.get('map') ?? '').split('/').map(parseFloat);
+  if ([zoom, lon, lat].every((v) => v !== undefined && Number.isFinite(v))) {
+    state.view = {
+      center: [lon!, lat!],
+      zoom: zoom!,
+      rotation: Number.isFinite(rotation) ? rotation! : 0,
+    };
+  }
+  const mode = params.get('mode') as EditMode;
+  if (EDIT_MODES.includes(mode)) state.mode = mode;
+  const imagery = params.get('imagery');
+  if (imagery) state.imagery = imagery;
+  const feature = params.get('feature');
+  if (feature) state.feature = feature;
+  return state;
+}
+
+export function formatHash(state: HashState): string {
+  const params = new URLSearchParams({ v: String(HASH_VERSION) });
+  if (state.gridCellId) params.set('cell', state.gridCellId);
+  if (state.view) {
+    const { center, zoom, rotation } = state.view;
+    params.set(
+      'map',
+      [zoom.toFixed(2), center[0].toFixed(6), center[1].toFixed(6), rotation.toFixed(1)].join('/'),
+    );
+  }
+  if (state.mode) params.set('mode', state.mode);
+  if (state.imagery) params.set('imagery', state.imagery);
+  if (state.feature) params.set('feature', state.feature);
+  // Keep slashes readable
+  return '#' + params.toString().replace(/%2F/g, '/');
+}
+
+function featureId(feature: Feature | undefined) {
+  const id = feature?.getId() ?? feature?.get('source_id');
+  return id === undefined ? undefined : String(id);
+}
 
-function parseHash(): string | undefined {
-  const hash = window.location.hash.replace('#', '');
-  return hash || undefined;
+function currentState(): HashState {
+  const view = map.getView();
+  const center = view.getCenter();
+  return {
+    gridCellId: selectedGridCellId.value,
+    view: center && {
+      center: toLonLat(center) as [number, number],
+      zoom: view.getZoom() ?? 0,
+      rotation: (view.getRotation() * 180) / Math.PI,
+    },
+    mode: editMode.value,
+    imagery: activeImageryId.value,
+    feature: featureId(selectedFeature.value),
+  };
 }
 
 function pushState() {
   if (!map || suppressWatcher) return;
-  const gridCellId = selectedGridCellId.value;
-  const hash = gridCellId ? '#' + gridCellId : '#';
-  if (hash !== window.location.hash) {
+  const hash = formatHash(currentState());
+  if (hash === window.location.hash) return;
+  if (replaceNext) {
+    history.replaceState(null, '', hash);
+    replaceNext = false;
+  } else {
     history.pushState(null, '', hash);
   }
 }
 
-function restoreState(gridCellId: string | undefined) {
-  if (!map) return;
-  if (gridCellId === selectedGridCellId.value) return;
+/**
+ * Write the state to the hash once it has settled, so panning and zooming
+ * only add one history entry.
+ */
+function schedulePushState() {
+  if (suppressWatcher) return;
+  clearTimeout(historyTimeout);
+  historyTimeout = setTimeout(pushState, HISTORY_DELAY);
+}
+
+function focusPendingFeature() {
+  if (!pendingFeature) return;
+  const feature = editSource
+    .getFeatures()
+    .find((f) => String(f.getId()) === pendingFeature || f.get('source_id') === pendingFeature);
+  if (!feature) return;
+  pendingFeature = undefined;
+  selectEditFeature(feature);
+}
+
+function applyState(state: HashState) {
+  if (state.gridCellId !== selectedGridCellId.value) {
+    selectGridCellById(state.gridCellId);
+  }
+  editMode.value = state.mode ?? null;
+  if (state.imagery) activeImageryId.value = state.imagery;
+  if (state.view) {
+    const view = map.getView();
+    view.cancelAnimations();
+    view.setCenter(fromLonLat(state.view.center));
+    view.setZoom(state.view.zoom);
+    view.setRotation((state.view.rotation * Math.PI) / 180);
+  }
+  // The field may only be loaded with the grid cell's draft
+  pendingFeature = state.feature;
+  focusPendingFeature();
+}
 
+function restoreState(state: HashState) {
+  if (!map) return;
   suppressWatcher = true;
-  selectGridCellById(gridCellId);
+  clearTimeout(historyTimeout);
+  applyState(state);
   queueMicrotask(() => {
     suppressWatcher = false;
   });
 }
 
+/**
+ * Apply the view, mode, imagery and focused field of the initial hash, once
+ * the grid cell from `initHash` has been selected.
+ */
+export function restoreHash() {
+  restoreState(initialState);
+  // Links without a view get one once the map has zoomed to the cell. After
+  // back/forward, changes add entries again so the history is not rewritten.
+  replaceNext = true;
+}
+
 export function initHash(mapInstance: Map) {
   map = mapInstance;
 
-  const gridCellId = parseHash();
+  initialState = parseHash();
 
-  // Push a history entry when grid cell selection changes
-  watch(selectedGridCellId, () => {
-    if (!suppressWatcher) {
-      pushState();
-    }
-  });
+  // Add a history entry when the state changes
+  watch([selectedGridCellId, editMode, activeImageryId, selectedFeature], schedulePushState);
+  map.on('moveend', schedulePushState);
+  editSource.on('change', focusPendingFeature);
 
   // Restore state on browser back/forward
   window.addEventListener('popstate', () => {
@@ -50,5 +202,5 @@ export function initHash(mapInstance: Map) {
   });
 
   // Return the grid cell ID from the hash for deferred selection
-  return { gridCellId };
+  return { gridCellId: initialState.gridCellId };
 }
@@ -0,0 +1,271 @@
+import { ref, shallowRef, watch } from 'vue';
+import type Map from 'ol/Map';
+import Group from 'ol/layer/Group';
+import TileLayer from 'ol/layer/Tile';
+import WebGLTileLayer from 'ol/layer/WebGLTile';
+import type BaseLayer from 'ol/layer/Base';
+import type RenderEvent from 'ol/render/Event';
+import XYZ from 'ol/source/XYZ';
+import GeoTIFF from 'ol/source/GeoTIFF';
+import { get as getProjection } from 'ol/proj';
+import { register } from 'ol/proj/proj4';
+import { getRenderPixel } from 'ol/render';
+import { getLayer } from 'ol-mapbox-style';
+import proj4 from 'proj4';
+import { projectionDefinition } from '@/importers';
+import { useGrid } from './useGrid';
+
+export interface Imagery {
+  id: string;
+  name: string;
+  /** Tile URL template of XYZ and WMTS imagery */
+  url?: string;
+  /** Local Cloud-Optimized GeoTIFF */
+  file?: File;
+}
+
+interface StoredImagery {
+  /** User-added tile imagery; local files cannot be restored */
+  tiles: { id: string; name: string; url: string }[];
+  /** Imagery choice per grid cell */
+  cells: Record<string, { active: string; compare?: string }>;
+}
+
+const STORAGE_KEY = 'ftw-editing-app-imagery';
+const DEFAULT_IMAGERY_ID = 'cloudless';
+
+const { selectedGridCellId } = useGrid();
+
+const imagery = shallowRef<Imagery[]>([]);
+const activeImageryId = ref(DEFAULT_IMAGERY_ID);
+const compareImageryId = ref<string>();
+const compareMode = ref<'swipe' | 'opacity'>('swipe');
+/** Swipe position or opacity of the compared imagery, in percent */
+const comparePosition = ref(50);
+const imageryError = ref<string>();
+
+const imageryGroup = new Group();
+const layers = new globalThis.Map<string, BaseLayer>();
+
+let map: Map | undefined;
+let stored: StoredImagery = { tiles: [], cells: {} };
+
+function loadStored() {
+  try {
+    const value = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (value) stored = value;
+  } catch {
+    // Ignore unreadable settings
+  }
+}
+
+function saveStored() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Settings are not remembered if storage is full or unavailable
+  }
+}
+
+/**
+ * Convert WMTS KVP placeholders to the XYZ placeholders OpenLayers expects.
+ * Returns undefined if the template has no tile placeholders.
+ */
+function tileUrlTemplate(url: string) {
+  const template = url
+    .replace(/\{TileMatrix\}/gi, '{z}')
+    .replace(/\{TileCol\}/gi, '{x}')
+    .replace(/\{TileRow\}/gi, '{y}');
+  return /\{z\}/.test(template) && /\{x\}/.test(template) && /\{-?y\}/.test(template)
+    ? template
+    : undefined;
+}
+
+/**
+ * Clip the compared layer to the right of the swipe position.
+ */
+function clipSwipe(event: RenderEvent) {
+  if (!map || compareMode.value !== 'swipe') return;
+  const [width, height] = map.getSize() as [number, number];
+  const x = (width * comparePosition.value) / 100;
+  const context = event.context!;
+  if ('scissor' in context) {
+    const bottomLeft = getRenderPixel(event, [x, height]);
+    const topRight = getRenderPixel(event, [width, 0]);
+    context.enable(context.SCISSOR_TEST);
+    context.scissor(
+      bottomLeft[0]!,
+      bottomLeft[1]!,
+      topRight[0]! - bottomLeft[0]!,
+      topRight[1]! - bottomLeft[1]!,
+    );
+  } else {
+    const corners = [
+      [x, 0],
+      [width, 0],
+      [width, height],
+      [x, height],
+    ].map((pixel) => getRenderPixel(event, pixel));
+    context.save();
+    context.beginPath();
+    corners.forEach(([px, py], i) => (i ? context.lineTo(px!, py!) : context.moveTo(px!, py!)));
+    context.closePath();
+    context.clip();
+  }
+}
+
+function restoreSwipe(event: RenderEvent) {
+  if (compareMode.value !== 'swipe') return;
+  const context = event.context!;
+  if ('scissor' in context) {
+    context.disable(context.SCISSOR_TEST);
+  } else {
+    context.restore();
+  }
+}
+
+function addLayer(entry: Imagery, layer: TileLayer | WebGLTileLayer) {
+  layer.on('prerender', (event) => {
+    if (layer === layers.get(compareImageryId.value ?? '')) clipSwipe(event);
+  });
+  layer.on('postrender', (event) => {
+    if (layer === layers.get(compareImageryId.value ?? '')) restoreSwipe(event);
+  });
+  layers.set(entry.id, layer);
+  imagery.value = [...imagery.value, entry];
+}
+
+/**
+ * Show the active imagery, with the compared imagery on top of it.
+ */
+function updateLayers() {
+  const active = layers.get(activeImageryId.value) ?? layers.get(DEFAULT_IMAGERY_ID);
+  const compare =
+    compareImageryId.value !== activeImageryId.value
+      ? layers.get(compareImageryId.value ?? '')
+      : undefined;
+  const group = imageryGroup.getLayers();
+  group.clear();
+  if (active) {
+    active.setOpacity(1);
+    group.push(active);
+  }
+  if (compare) {
+    compare.setOpacity(compareMode.value === 'opacity' ? comparePosition.value / 100 : 1);
+    group.push(compare);
+  }
+  map?.render();
+}
+
+/**
+ * Add XYZ or WMTS imagery from a tile URL template with `{z}/{x}/{y}` or
+ * `{TileMatrix}/{TileCol}/{TileRow}` placeholders.
+ */
+function addTileImagery(name: string, url: string) {
+  const template = tileUrlTemplate(url.trim());
+  if (!template) {
+    imageryError.value = 'The URL needs {z}, {x} and {y} or WMTS TileMatrix placeholders';
+    return;
+  }
+  imageryError.value = undefined;
+  const entry = { id: `tiles-${Date.now()}`, name: name.trim() || template, url: template };
+  addLayer(entry, new TileLayer({ source: new XYZ({ url: template, crossOrigin: 'anonymous' }) }));
+  stored.tiles.push({ id: entry.id, name: entry.name, url: template });
+  saveStored();
+  activeImageryId.value = entry.id;
+}
+
+/**
+ * Add a local Cloud-Optimized GeoTIFF. Its projection is registered from the
+ * GeoTIFF's EPSG code if OpenLayers does not know it yet.
+ */
+async function addCogImagery(file: File) {
+  imageryError.value = undefined;
+  try {
+    const { fromBlob } = await import('geotiff');
+    const image = await (await fromBlob(file)).getImage();
+    const geoKeys = image.getGeoKeys() ?? {};
+    const epsg = geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey;
+    const definition = epsg && projectionDefinition({ epsg });
+    if (definition && !getProjection(`EPSG:${epsg}`)) {
+      proj4.defs(`EPSG:${epsg}`, definition);
+      register(proj4);
+    }
+  } catch {
+    imageryError.value = `Could not read GeoTIFF ${file.name}`;
+    return;
+  }
+  const entry = { id: `cog-${Date.now()}`, name: file.name, file };
+  addLayer(entry, new WebGLTileLayer({ source: new GeoTIFF({ sources: [{ blob: file }] }) }));
+  activeImageryId.value = entry.id;
+}
+
+function removeImagery(id: string) {
+  if (id === DEFAULT_IMAGERY_ID) return;
+  layers.get(id)?.dispose();
+  layers.delete(id);
+  imagery.value = imagery.value.filter((entry) => entry.id !== id);
+  stored.tiles = stored.tiles.filter((entry) => entry.id !== id);
+  saveStored();
+  if (activeImageryId.value === id) activeImageryId.value = DEFAULT_IMAGERY_ID;
+  if (compareImageryId.value === id) compareImageryId.value = undefined;
+}
+
+function restoreCellImagery(gridCellId: string | undefined) {
+  const choice = gridCellId ? stored.cells[gridCellId] : undefined;
+  if (!choice) return;
+  if (layers.has(choice.active)) activeImageryId.value = choice.active;
+  compareImageryId.value =
+    choice.compare && layers.has(choice.compare) ? choice.compare : undefined;
+}
+
+function storeCellImagery() {
+  const gridCellId = selectedGridCellId.value;
+  if (!gridCellId) return;
+  stored.cells[gridCellId] = { active: activeImageryId.value, compare: compareImageryId.value };
+  saveStored();
+}
+
+export function initImagery(mapInstance: Map, mapGroup: Group) {
+  map = mapInstance;
+  loadStored();
+
+  // The style's imagery is the default; the group takes its place so it is not
+  // rendered twice
+  const styleLayer = getLayer(mapGroup, DEFAULT_IMAGERY_ID) as TileLayer;
+  const styleLayers = mapGroup.getLayers();
+  styleLayers.setAt(styleLayers.getArray().indexOf(styleLayer), imageryGroup);
+  addLayer(
+    { id: DEFAULT_IMAGERY_ID, name: 'Sentinel-2 cloudless 2024' },
+    new TileLayer({ source: styleLayer.getSource()! }),
+  );
+  for (const { id, name, url } of stored.tiles) {
+    addLayer(
+      { id, name, url },
+      new TileLayer({ source: new XYZ({ url, crossOrigin: 'anonymous' }) }),
+    );
+  }
+
+  restoreCellImagery(selectedGridCellId.value);
+  updateLayers();
+  watch(selectedGridCellId, restoreCellImagery);
+  watch([activeImageryId, compareImageryId], () => {
+    storeCellImagery();
+    updateLayers();
+  });
+  watch([compareMode, comparePosition], updateLayers);
+}
+
+export function useImagery() {
+  return {
+    imagery,
+    activeImageryId,
+    compareImageryId,
+    compareMode,
+    comparePosition,
+    imageryError,
+    addTileImagery,
+    addCogImagery,
+    removeImagery,
+  };
+}
@@ -0,0 +1,151 @@
+import { ref, shallowRef, watch } from 'vue';
+import type Map from 'ol/Map';
+import RBush from 'ol/structs/RBush';
+import { boundingExtent, isEmpty } from 'ol/extent';
+import { transformExtent } from 'ol/proj';
+import type { Coordinate } from 'ol/coordinate';
+import type { Feature } from 'ol';
+import type { Feature as GeoJSONFeature, MultiPolygon, Polygon } from 'geojson';
+import { readFeatureFile } from '@/importers';
+import { addImportedFeatures, loadFeatures, useEdit } from './useEdit';
+import { withoutAutosave } from './useDrafts';
+import { gridCellExtent, useGrid } from './useGrid';
+
+export interface ImportSourceInfo {
+  name: string;
+  featureCount: number;
+}
+
+const { editSource, baselineSource } = useEdit();
+const { selectedGridCellId } = useGrid();
+
+const importSource = shallowRef<ImportSourceInfo>();
+/** Fraction of the file read while importing */
+const importProgress = ref<number>();
+
+let map: Map | undefined;
+/** Features of the import source in EPSG:4326, indexed by their extent */
+let index: RBush<GeoJSONFeature> | undefined;
+/**
+ * Features of the import source that have been added to the edit layer, so
+ * cells sharing them do not add them twice
+ */
+let loaded = new globalThis.Map<GeoJSONFeature, Feature>();
+
+function featureExtent(feature: GeoJSONFeature) {
+  const geometry = feature.geometry as Polygon | MultiPolygon;
+  const positions =
+    geometry.type === 'Polygon' ? geometry.coordinates.flat() : geometry.coordinates.flat(2);
+  return boundingExtent(positions as Coordinate[]);
+}
+
+function cellIndexFeatures(gridCellId: string) {
+  const extent = gridCellExtent(gridCellId);
+  if (!index || !extent) return [];
+  return index.getInExtent(transformExtent(extent, 'EPSG:3857', 'EPSG:4326'));
+}
+
+/**
+ * Add the features of the import source that intersect a grid cell to the
+ * edit layer, if they have not been added before. Unedited predictions are not
+ * saved as draft.
+ */
+function loadCell(gridCellId: string) {
+  const features = cellIndexFeatures(gridCellId).filter((feature) => !loaded.has(feature));
+  if (features.length === 0) return;
+  withoutAutosave(() => {
+    const added = addImportedFeatures({ type: 'FeatureCollection', features });
+    added.forEach((feature, i) => loaded.set(features[i]!, feature));
+  });
+}
+
+/**
+ * Load the features of the import source into a grid cell again, after its
+ * draft has been discarded. Features still on the edit layer, e.g. because
+ * they reach into a neighbouring cell, are kept.
+ */
+function reloadCell(gridCellId: string) {
+  for (const feature of cellIndexFeatures(gridCellId)) {
+    const added = loaded.get(feature);
+    if (added && !editSource.hasFeature(added)) loaded.delete(feature);
+  }
+  if (selectedGridCellId.value === gridCellId) loadCell(gridCellId);
+}
+
+/**
+ * Remove the features of the import source from the edit layer and the
+ * baseline, so a following import is not mixed with this one.
+ */
+function unloadImport() {
+  const features = [...loaded.values()].filter((feature) => editSource.hasFeature(feature));
+  withoutAutosave(() => loadFeatures(undefined, features));
+  baselineSource.clear();
+  loaded = new globalThis.Map();
+}
+
+function fitToIndex() {
+  if (!map || !index || index.isEmpty()) return;
+  const view = map.getView();
+  const extent = transformExtent(index.getExtent(), 'EPSG:4326', view.getProjection());
+  if (isEmpty(extent)) return;
+  const size = map.getSize();
+  const width = size?.[0] ?? 0;
+  const height = size?.[1] ?? 0;
+  view.fit(extent, {
+    padding: [height * 0.125, width * 0.125, height * 0.125, width * 0.125],
+    duration: 500,
+  });
+}
+
+/**
+ * Use a model run as import source. The file is read and indexed, and its
+ * features are added to the edit layer per grid cell when the cell is opened.
+ * Without a selected cell, the view is fitted to the model run so a cell can be
+ * chosen.
+ */
+async function openImportSource(file: File) {
+  importProgress.value = 0;
+  try {
+    const { features } = await readFeatureFile(file, (fraction) => {
+      importProgress.value = fraction;
+    });
+    unloadImport();
+    index = new RBush<GeoJSONFeature>();
+    index.load(features.map(featureExtent), features);
+    importSource.value = { name: file.name, featureCount: features.length };
+  } finally {
+    importProgress.value = undefined;
+  }
+  if (selectedGridCellId.value) {
+    loadCell(selectedGridCellId.value);
+  } else {
+    fitToIndex();
+  }
+}
+
+/**
+ * Stop loading features from the import source, and remove its features from
+ * the edit layer. Edits saved in drafts are restored when their cell is opened.
+ */
+function closeImportSource() {
+  unloadImport();
+  index = undefined;
+  importSource.value = undefined;
+}
+
+export function initImportSource(mapInstance: Map) {
+  map = mapInstance;
+  watch(selectedGridCellId, (gridCellId) => {
+    if (gridCellId) loadCell(gridCellId);
+  });
+}
+
+export function useImportSource() {
+  return {
+    importSource,
+    importProgress,
+    openImportSource,
+    closeImportSource,
+    reloadCell,
+  };
+}
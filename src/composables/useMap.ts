@@ -7,7 +7,15 @@ import { register as registerPMTilesProtocol } from 'pmtiles-protocol';
 import type VectorTileLayer from 'ol/layer/VectorTile';
 import { initGrid } from './useGrid';
 import { initEdit } from './useEdit';
-import { initHash } from './useHash';
+import { initHash, restoreHash } from './useHash';
+import { initDrafts } from './useDrafts';
+import { initImportSource } from './useImportSource';
+import { initValidation } from './useValidation';
+import { initDiff } from './useDiff';
+import { initReview } from './useReview';
+import { initCleanup } from './useCleanup';
+import { initImagery } from './useImagery';
+import { initMeasure } from './useMeasure';
 import RenderFeature from 'ol/render/Feature';
 
 registerPMTilesProtocol();
@@ -24,7 +32,16 @@ const mapGroup = new Group();
 function onStyleLoaded(gridCellId?: string) {
   const grid = getLayer(mapGroup, 'ftw-grid') as VectorTileLayer;
   initGrid(grid, map, mapGroup, gridCellId);
+  initImagery(map, mapGroup);
   initEdit(map);
+  initMeasure(map);
+  initDrafts(map);
+  initImportSource(map);
+  initValidation(map);
+  initDiff(map);
+  initReview(map);
+  initCleanup(map);
+  restoreHash();
 }
 
 apply(mapGroup, './style.json').then(() => {
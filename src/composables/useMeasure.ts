@@ -0,0 +1,192 @@
+import { ref, watch } from 'vue';
+import type { Feature } from 'ol';
+import type Map from 'ol/Map';
+import Overlay from 'ol/Overlay';
+import Draw from 'ol/interaction/Draw';
+import { LineString, MultiPolygon, Polygon } from 'ol/geom';
+import type { Geometry } from 'ol/geom';
+import type { FeatureLike } from 'ol/Feature';
+import { Fill, Stroke, Style, Text } from 'ol/style';
+import { getArea, getLength } from 'ol/sphere';
+import { intersects } from 'ol/extent';
+import { unByKey } from 'ol/Observable';
+import type { EventsKey } from 'ol/events';
+import { REVIEW_STATUS } from './useAttributes';
+import { setFieldOverlayStyle, useEdit } from './useEdit';
+import { gridCellExtent, useGrid } from './useGrid';
+
+export interface Measurement {
+  /** Geodesic area in m² */
+  area: number;
+  /** Geodesic perimeter in m */
+  perimeter: number;
+}
+
+export interface CellTotals extends Measurement {
+  count: number;
+  /** Number of fields below the minimum field area */
+  belowMinimum: number;
+}
+
+const TOTALS_DELAY = 200;
+/** Area labels are only shown below this resolution (m/pixel) */
+const LABEL_MAX_RESOLUTION = 10;
+
+const { editSource } = useEdit();
+const { selectedGridCellId } = useGrid();
+
+const minFieldArea = ref(100);
+const cellTotals = ref<CellTotals>({ count: 0, area: 0, perimeter: 0, belowMinimum: 0 });
+
+const measurements = new WeakMap<Geometry, { revision: number; measurement: Measurement }>();
+
+let map: Map | undefined;
+let totalsTimeout: ReturnType<typeof setTimeout> | undefined;
+
+export function formatArea(squareMeters: number) {
+  return squareMeters >= 10000
+    ? `${(squareMeters / 10000).toFixed(2)} ha`
+    : `${Math.round(squareMeters)} m²`;
+}
+
+export function formatLength(meters: number) {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+}
+
+/**
+ * Geodesic area and perimeter of a (multi)polygon in the view projection.
+ * Results are cached until the geometry changes.
+ */
+export function measure(geometry: Geometry): Measurement {
+  const cached = measurements.get(geometry);
+  if (cached && cached.revision === geometry.getRevision()) return cached.measurement;
+
+  const projection = map!.getView().getProjection();
+  const polygons =
+    geometry instanceof Polygon
+      ? [geometry.getCoordinates()]
+      : geometry instanceof MultiPolygon
+        ? geometry.getCoordinates()
+        : [];
+  const measurement = {
+    area: getArea(geometry, { projection }),
+    perimeter: polygons
+      .flat()
+      .reduce((sum, ring) => sum + getLength(new LineString(ring), { projection }), 0),
+  };
+  measurements.set(geometry, { revision: geometry.getRevision(), measurement });
+  return measurement;
+}
+
+const suspectStroke = new Stroke({ color: 'rgba(255, 60, 60, 1)', width: 2, lineDash: [4, 4] });
+const suspectFill = new Fill({ color: 'rgba(255, 60, 60, 0.25)' });
+const labelFill = new Fill({ color: '#fff' });
+const labelStroke = new Stroke({ color: 'rgba(0, 0, 0, 0.8)', width: 3 });
+
+/**
+ * Area and perimeter labels on the fields, and a highlight on fields below the
+ * minimum field area. Drawn on top of the edit layer's field styles.
+ */
+function measureStyle(feature: FeatureLike, resolution: number) {
+  const geometry = (feature as Feature).getGeometry();
+  if (!geometry) return undefined;
+  const { area, perimeter } = measure(geometry);
+  const suspect = area < minFieldArea.value;
+  if (!suspect && resolution > LABEL_MAX_RESOLUTION) return undefined;
+  return new Style({
+    stroke: suspect ? suspectStroke : undefined,
+    fill: suspect ? suspectFill : undefined,
+    zIndex: 2,
+    text:
+      resolution <= LABEL_MAX_RESOLUTION
+        ? new Text({
+            text: `${formatArea(area)}\n${formatLength(perimeter)}`,
+            font: '12px sans-serif',
+            fill: labelFill,
+            stroke: labelStroke,
+          })
+        : undefined,
+  });
+}
+
+function updateTotals() {
+  const extent = selectedGridCellId.value ? gridCellExtent(selectedGridCellId.value) : undefined;
+  const totals: CellTotals = { count: 0, area: 0, perimeter: 0, belowMinimum: 0 };
+  if (extent) {
+    editSource.forEachFeatureIntersectingExtent(extent, (feature) => {
+      if (feature.get(REVIEW_STATUS) === 'rejected') return;
+      if (!intersects(feature.getGeometry()!.getExtent(), extent)) return;
+      const { area, perimeter } = measure(feature.getGeometry()!);
+      totals.count++;
+      totals.area += area;
+      totals.perimeter += perimeter;
+      if (area < minFieldArea.value) totals.belowMinimum++;
+    });
+  }
+  cellTotals.value = totals;
+}
+
+function scheduleTotals() {
+  clearTimeout(totalsTimeout);
+  totalsTimeout = setTimeout(updateTotals, TOTALS_DELAY);
+}
+
+/**
+ * Show the size of the sketch while drawing: area and perimeter for
+ * polygons, length for lines.
+ */
+function trackDraw(draw: Draw, tooltip: Overlay) {
+  let listener: EventsKey | undefined;
+  const stop = () => {
+    if (listener) unByKey(listener);
+    tooltip.setPosition(undefined);
+  };
+  draw.on('drawstart', (event) => {
+    const geometry = event.feature.getGeometry()!;
+    listener = geometry.on('change', () => {
+      const element = tooltip.getElement()!;
+      if (geometry instanceof Polygon) {
+        const { area, perimeter } = measure(geometry);
+        const ring = geometry.getCoordinates()[0]!;
+        element.textContent = `${formatArea(area)} · ${formatLength(perimeter)}`;
+        tooltip.setPosition(ring[ring.length - 2]);
+      } else if (geometry instanceof LineString) {
+        const length = getLength(geometry, { projection: map!.getView().getProjection() });
+        element.textContent = formatLength(length);
+        tooltip.setPosition(geometry.getLastCoordinate());
+      }
+    });
+  });
+  draw.on(['drawend', 'drawabort'], stop);
+}
+
+export function initMeasure(mapInstance: Map) {
+  map = mapInstance;
+  setFieldOverlayStyle(measureStyle);
+
+  const element = document.createElement('div');
+  element.className = 'measure-tooltip';
+  const tooltip = new Overlay({ element, offset: [12, 0], positioning: 'center-left' });
+  map.addOverlay(tooltip);
+  // Draw interactions come and go with the edit modes
+  map.getInteractions().on('add', (event) => {
+    if (event.element instanceof Draw) trackDraw(event.element, tooltip);
+  });
+  map.getInteractions().on('remove', (event) => {
+    if (event.element instanceof Draw) tooltip.setPosition(undefined);
+  });
+
+  editSource.on('change', scheduleTotals);
+  watch(selectedGridCellId, scheduleTotals, { immediate: true });
+  watch(minFieldArea, () => {
+    setFieldOverlayStyle(measureStyle);
+    scheduleTotals();
+  });
+}
+
+export function useMeasure() {
+  return {
+    minFieldArea,
+    cellTotals,
+  };
+}
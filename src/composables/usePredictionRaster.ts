@@ -0,0 +1,67 @@
+import { ref, shallowRef } from 'vue';
+import { transformExtent } from 'ol/proj';
+import {
+  ImportError,
+  isGeoTIFF,
+  readFileHeader,
+  vectorizeGeoTIFF,
+  type VectorizeOptions,
+} from '@/importers';
+import { useEdit } from './useEdit';
+import { gridCellExtent, useGrid } from './useGrid';
+
+const { importGeoJSON } = useEdit();
+const { selectedGridCellId } = useGrid();
+
+const predictionRaster = shallowRef<File | undefined>(undefined);
+const vectorizeOptions = ref<VectorizeOptions>({
+  method: 'threshold',
+  threshold: 0.5,
+  classValue: 1,
+  minPixels: 10,
+});
+const vectorizing = ref(false);
+const vectorizeError = ref<string>();
+
+/**
+ * Use a local GeoTIFF as prediction source. Returns false if the file is not
+ * a GeoTIFF.
+ */
+async function openPredictionRaster(file: File) {
+  if (!isGeoTIFF(await readFileHeader(file))) return false;
+  predictionRaster.value = file;
+  vectorizeError.value = undefined;
+  return true;
+}
+
+/**
+ * Vectorize the prediction raster within the selected grid cell and import
+ * the resulting fields as a single undo step.
+ */
+async function vectorize() {
+  const file = predictionRaster.value;
+  const extent = selectedGridCellId.value && gridCellExtent(selectedGridCellId.value);
+  if (!file || !extent) return;
+  vectorizing.value = true;
+  vectorizeError.value = undefined;
+  try {
+    const bbox = transformExtent(extent, 'EPSG:3857', 'EPSG:4326');
+    importGeoJSON(await vectorizeGeoTIFF(file, bbox, vectorizeOptions.value));
+  } catch (error) {
+    vectorizeError.value =
+      error instanceof ImportError ? error.message : `Could not vectorize ${file.name}`;
+  } finally {
+    vectorizing.value = false;
+  }
+}
+
+export function usePredictionRaster() {
+  return {
+    predictionRaster,
+    vectorizeOptions,
+    vectorizing,
+    vectorizeError,
+    openPredictionRaster,
+    vectorize,
+  };
+}
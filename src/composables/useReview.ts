@@ -0,0 +1,122 @@
+import { computed, ref, watch } from 'vue';
+import type { Feature } from 'ol';
+import type Map from 'ol/Map';
+import { getCenter, intersects } from 'ol/extent';
+import { REVIEW_STATUS, useAttributes, type ReviewStatus } from './useAttributes';
+import { selectEditFeature, setFeatureAttribute, useEdit } from './useEdit';
+import { gridCellExtent, useGrid } from './useGrid';
+
+const PROGRESS_DELAY = 100;
+
+const { editSource } = useEdit();
+const { selectedGridCellId } = useGrid();
+const { selectedFeature } = useAttributes();
+
+const counts = ref<Record<ReviewStatus, number>>({
+  unreviewed: 0,
+  accepted: 0,
+  corrected: 0,
+  rejected: 0,
+});
+
+const total = computed(() => Object.values(counts.value).reduce((sum, n) => sum + n, 0));
+const reviewed = computed(() => total.value - counts.value.unreviewed);
+
+let map: Map | undefined;
+let progressTimeout: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Imported predictions of the selected grid cell, or of all cells if none is
+ * selected.
+ */
+function reviewFeatures(): Feature[] {
+  const extent = selectedGridCellId.value ? gridCellExtent(selectedGridCellId.value) : undefined;
+  return editSource
+    .getFeatures()
+    .filter(
+      (feature) =>
+        feature.get(REVIEW_STATUS) !== undefined &&
+        (!extent || intersects(feature.getGeometry()!.getExtent(), extent)),
+    );
+}
+
+function updateProgress() {
+  const result: Record<ReviewStatus, number> = {
+    unreviewed: 0,
+    accepted: 0,
+    corrected: 0,
+    rejected: 0,
+  };
+  for (const feature of reviewFeatures()) {
+    result[feature.get(REVIEW_STATUS) as ReviewStatus]++;
+  }
+  counts.value = result;
+}
+
+function scheduleProgressUpdate() {
+  clearTimeout(progressTimeout);
+  progressTimeout = setTimeout(updateProgress, PROGRESS_DELAY);
+}
+
+function zoomToFeature(feature: Feature) {
+  if (!map) return;
+  const size = map.getSize();
+  const width = size?.[0] ?? 0;
+  const height = size?.[1] ?? 0;
+  map.getView().fit(feature.getGeometry()!.getExtent(), {
+    padding: [height * 0.25, width * 0.25, height * 0.25, width * 0.25],
+    maxZoom: 18,
+    duration: 500,
+  });
+}
+
+/**
+ * Select and zoom to the unreviewed prediction closest to the current
+ * selection (or the view center).
+ */
+function nextUnreviewed() {
+  if (!map) return;
+  const current = selectedFeature.value;
+  const origin = current
+    ? getCenter(current.getGeometry()!.getExtent())
+    : map.getView().getCenter()!;
+  let next: Feature | undefined;
+  let minDistance = Infinity;
+  for (const feature of reviewFeatures()) {
+    if (feature === current || feature.get(REVIEW_STATUS) !== 'unreviewed') continue;
+    const [x, y] = getCenter(feature.getGeometry()!.getExtent());
+    const distance = (x! - origin[0]!) ** 2 + (y! - origin[1]!) ** 2;
+    if (distance < minDistance) {
+      minDistance = distance;
+      next = feature;
+    }
+  }
+  selectEditFeature(next);
+  if (next) {
+    zoomToFeature(next);
+  }
+}
+
+function setReviewStatus(status: 'accepted' | 'rejected') {
+  const feature = selectedFeature.value;
+  if (!feature || feature.get(REVIEW_STATUS) === undefined) return;
+  setFeatureAttribute(feature, REVIEW_STATUS, status);
+  nextUnreviewed();
+}
+
+export function initReview(mapInstance: Map) {
+  map = mapInstance;
+  editSource.on('change', scheduleProgressUpdate);
+  watch(selectedGridCellId, scheduleProgressUpdate);
+}
+
+export function useReview() {
+  return {
+    counts,
+    total,
+    reviewed,
+    nextUnreviewed,
+    accept: () => setReviewStatus('accepted'),
+    reject: () => setReviewStatus('rejected'),
+  };
+}
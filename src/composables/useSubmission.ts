@@ -0,0 +1,168 @@
+import { computed, ref, watch } from 'vue';
+import {
+  ApiError,
+  AuthError,
+  ConflictError,
+  createApiClient,
+  type SubmissionInfo,
+  type SubmissionRequest,
+} from '@/api';
+import { fromFiboaFeatures, toFiboaFeatures } from '@/exporters';
+import { clippedCellFeatures, replaceFeatures } from './useEdit';
+import { cellFeatures } from './useDrafts';
+import { useGrid } from './useGrid';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+const TOKEN_STORAGE_KEY = 'ftw-editing-app-api-token';
+const SUBMISSIONS_STORAGE_KEY = 'ftw-editing-app-submissions';
+
+const { selectedGridCellId, gridProviderName } = useGrid();
+
+/** Kept for the browser session only, so the token does not outlive it */
+const apiToken = ref(loadToken());
+const submitting = ref(false);
+const submissionError = ref<string>();
+/** Latest version on the server, when it is newer than the local edits */
+const conflictVersion = ref<number>();
+/** Last submitted or loaded version per grid cell, the base of further edits */
+const submissions = ref<Record<string, SubmissionInfo>>(loadSubmissions());
+
+const lastSubmission = computed(() =>
+  selectedGridCellId.value ? submissions.value[selectedGridCellId.value] : undefined,
+);
+
+const client = API_BASE_URL
+  ? createApiClient({ baseUrl: API_BASE_URL, token: () => apiToken.value || undefined })
+  : undefined;
+
+function loadToken() {
+  try {
+    // Earlier versions kept the token in local storage
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    return sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function loadSubmissions() {
+  try {
+    return JSON.parse(localStorage.getItem(SUBMISSIONS_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function storeSubmission(submission: SubmissionInfo) {
+  submissions.value = { ...submissions.value, [submission.grid_cell_id]: submission };
+  try {
+    localStorage.setItem(SUBMISSIONS_STORAGE_KEY, JSON.stringify(submissions.value));
+  } catch {
+    // Submissions are only remembered for this page if storage is full or unavailable
+  }
+}
+
+watch(apiToken, (token) => {
+  try {
+    if (token) sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+    else sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+  } catch {
+    // The token is only kept in memory if storage is unavailable
+  }
+});
+
+watch(selectedGridCellId, () => {
+  submissionError.value = undefined;
+  conflictVersion.value = undefined;
+});
+
+function handleError(error: unknown) {
+  if (error instanceof ConflictError) {
+    conflictVersion.value = error.latestVersion;
+  } else if (error instanceof AuthError) {
+    submissionError.value = `Not authorized: ${error.message}. Check the API token.`;
+  } else if (error instanceof ApiError) {
+    submissionError.value = error.message;
+  } else {
+    submissionError.value = error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Submit the fields of the selected grid cell. With `overwrite`, the edits
+ * replace the newer version that caused a conflict.
+ */
+async function submitCell(overwrite = false) {
+  const gridCellId = selectedGridCellId.value;
+  if (!client || !gridCellId) return;
+
+  submitting.value = true;
+  submissionError.value = undefined;
+  try {
+    const clipped = await clippedCellFeatures();
+    if (!clipped) return;
+    const features = toFiboaFeatures(clipped, gridCellId);
+    const request: SubmissionRequest = {
+      base_version: overwrite
+        ? (conflictVersion.value ?? null)
+        : (submissions.value[gridCellId]?.version ?? null),
+      metadata: {
+        feature_count: features.length,
+        total_area: features.reduce((sum, feature) => sum + feature.properties.area, 0),
+        grid: gridProviderName.value ?? '',
+        created_at: new Date().toISOString(),
+      },
+      features: { type: 'FeatureCollection', features },
+    };
+    conflictVersion.value = undefined;
+    storeSubmission(await client.submitCell(gridCellId, request));
+  } catch (error) {
+    handleError(error);
+  } finally {
+    submitting.value = false;
+  }
+}
+
+/**
+ * Replace the fields of the selected grid cell with its latest submitted
+ * version, as an undoable edit. Further submissions are based on that version.
+ */
+async function loadLastSubmission() {
+  const gridCellId = selectedGridCellId.value;
+  if (!client || !gridCellId) return;
+
+  submitting.value = true;
+  submissionError.value = undefined;
+  try {
+    const submission = await client.latestSubmission(gridCellId);
+    if (selectedGridCellId.value !== gridCellId) return;
+    if (!submission) {
+      submissionError.value = `Grid cell ${gridCellId} has not been submitted yet`;
+      return;
+    }
+    replaceFeatures(
+      { type: 'FeatureCollection', features: fromFiboaFeatures(submission.features.features) },
+      cellFeatures(gridCellId),
+    );
+    conflictVersion.value = undefined;
+    const { version, submitted_at } = submission;
+    storeSubmission({ grid_cell_id: gridCellId, version, submitted_at });
+  } catch (error) {
+    handleError(error);
+  } finally {
+    submitting.value = false;
+  }
+}
+
+export function useSubmission() {
+  return {
+    submissionEnabled: !!client,
+    apiToken,
+    submitting,
+    submissionError,
+    conflictVersion,
+    lastSubmission,
+    submitCell,
+    loadLastSubmission,
+  };
+}
@@ -0,0 +1,293 @@
+import { computed, ref, shallowRef } from 'vue';
+import VectorSource from 'ol/source/Vector';
+import VectorLayer from 'ol/layer/Vector';
+import { Circle as CircleStyle, Fill, Stroke, Style } from 'ol/style';
+import { MultiPolygon, Point, Polygon } from 'ol/geom';
+import { fromExtent } from 'ol/geom/Polygon';
+import type { Geometry } from 'ol/geom';
+import { Feature } from 'ol';
+import type Map from 'ol/Map';
+import { getArea } from 'ol/sphere';
+import { buffer, createEmpty, extend, intersects } from 'ol/extent';
+import polygonClipping from 'polygon-clipping';
+import { findSelfIntersection } from '@/geometry';
+import { useEdit } from './useEdit';
+import { REVIEW_STATUS } from './useAttributes';
+import { formatArea, useMeasure } from './useMeasure';
+
+export type ValidationIssueType =
+  | 'invalid-ring'
+  | 'self-intersection'
+  | 'overlap'
+  | 'small-area'
+  | 'gap'
+  | 'outside-cell'
+  | 'clipping-failed';
+
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  geometry: Geometry;
+}
+
+/** Overlaps, gaps and outside parts smaller than this (m²) are treated as noise */
+const AREA_TOLERANCE = 1;
+/** Holes between fields larger than this (m²) are non-field areas, not gaps */
+const MAX_GAP_AREA = 500;
+const REVALIDATE_DELAY = 500;
+
+const { editSource, gridSnapSource } = useEdit();
+const { minFieldArea } = useMeasure();
+
+const issues = shallowRef<ValidationIssue[]>([]);
+const checked = ref(false);
+
+const hasBlockingErrors = computed(() => issues.value.some((i) => i.severity === 'error'));
+
+const validationSource = new VectorSource();
+const validationLayer = new VectorLayer({
+  source: validationSource,
+  style: new Style({
+    fill: new Fill({ color: 'rgba(255, 60, 60, 0.35)' }),
+    stroke: new Stroke({ color: 'rgba(255, 60, 60, 1)', width: 3 }),
+    image: new CircleStyle({
+      radius: 7,
+      stroke: new Stroke({ color: 'rgba(255, 60, 60, 1)', width: 3 }),
+    }),
+  }),
+});
+
+let map: Map | undefined;
+let revalidateTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function area(coordinates: number[][][]) {
+  return getArea(new Polygon(coordinates), { projection: map!.getView().getProjection() });
+}
+
+function multiArea(coordinates: polygonClipping.MultiPolygon) {
+  return coordinates.reduce((sum, polygon) => sum + area(polygon), 0);
+}
+
+function polygonsOf(feature: Feature): polygonClipping.MultiPolygon {
+  const geom = feature.getGeometry();
+  if (geom instanceof Polygon) return [geom.getCoordinates() as polygonClipping.Polygon];
+  if (geom instanceof MultiPolygon) return geom.getCoordinates() as polygonClipping.MultiPolygon;
+  return [];
+}
+
+function ringIssue(ring: number[][]): string | undefined {
+  if (ring.length < 4) return 'Ring has fewer than 4 vertices';
+  const first = ring[0]!;
+  const last = ring[ring.length - 1]!;
+  if (first[0] !== last[0] || first[1] !== last[1]) return 'Ring is not closed';
+  if (area([ring]) === 0) return 'Ring has no area';
+  return undefined;
+}
+
+function checkFeature(feature: Feature, result: ValidationIssue[]): boolean {
+  const polygons = polygonsOf(feature);
+  let valid = true;
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      const message = ringIssue(ring);
+      if (message) {
+        valid = false;
+        result.push({
+          type: 'invalid-ring',
+          severity: 'error',
+          message,
+          geometry: feature.getGeometry()!.clone(),
+        });
+      }
+    }
+    if (!valid) continue;
+    const point = findSelfIntersection(polygon);
+    if (point) {
+      valid = false;
+      result.push({
+        type: 'self-intersection',
+        severity: 'error',
+        message: 'Self-intersecting boundary',
+        geometry: new Point(point),
+      });
+    }
+  }
+  if (valid) {
+    const fieldArea = multiArea(polygons);
+    if (fieldArea < minFieldArea.value) {
+      result.push({
+        type: 'small-area',
+        severity: 'warning',
+        message: `Field below minimum area (${formatArea(fieldArea)})`,
+        geometry: feature.getGeometry()!.clone(),
+      });
+    }
+  }
+  return valid;
+}
+
+/**
+ * Issue for a polygon clipping failure. Clipping throws on some invalid
+ * geometries that the ring checks do not catch, which must not stop validation.
+ */
+function clippingIssue(error: unknown, geometry: Geometry): ValidationIssue {
+  return {
+    type: 'clipping-failed',
+    severity: 'error',
+    message: `Invalid geometry, could not be checked (${(error as Error).message})`,
+    geometry,
+  };
+}
+
+function checkOverlaps(features: Feature[], result: ValidationIssue[]) {
+  const candidates = new Set(features);
+  for (const feature of features) {
+    // Each pair is compared once
+    candidates.delete(feature);
+    const extent = feature.getGeometry()!.getExtent();
+    for (const other of editSource.getFeaturesInExtent(extent)) {
+      if (!candidates.has(other)) continue;
+      let overlap;
+      try {
+        overlap = polygonClipping.intersection(polygonsOf(feature), polygonsOf(other));
+      } catch (error) {
+        result.push(clippingIssue(error, feature.getGeometry()!.clone()));
+        continue;
+      }
+      if (overlap.length === 0) continue;
+      const overlapArea = multiArea(overlap);
+      if (overlapArea < AREA_TOLERANCE) continue;
+      result.push({
+        type: 'overlap',
+        severity: 'error',
+        message: `Overlapping fields (${formatArea(overlapArea)})`,
+        geometry: new MultiPolygon(overlap),
+      });
+    }
+  }
+}
+
+function checkGaps(features: Feature[], result: ValidationIssue[]) {
+  if (features.length < 2) return;
+  const [first, ...rest] = features.map(polygonsOf);
+  let union;
+  try {
+    union = polygonClipping.union(first!, ...rest);
+  } catch (error) {
+    const extent = features.reduce(
+      (combined, feature) => extend(combined, feature.getGeometry()!.getExtent()),
+      createEmpty(),
+    );
+    result.push(clippingIssue(error, fromExtent(extent)));
+    return;
+  }
+  for (const polygon of union) {
+    for (const hole of polygon.slice(1)) {
+      const gapArea = area([hole]);
+      if (gapArea < AREA_TOLERANCE || gapArea > MAX_GAP_AREA) continue;
+      result.push({
+        type: 'gap',
+        severity: 'warning',
+        message: `Gap between fields (${formatArea(gapArea)})`,
+        geometry: new Polygon([hole]),
+      });
+    }
+  }
+}
+
+function checkOutsideCell(features: Feature[], result: ValidationIssue[]) {
+  const cell = gridSnapSource.getFeatures()[0];
+  if (!cell) return;
+  const cellPolygons = polygonsOf(cell);
+  for (const feature of features) {
+    let outside;
+    try {
+      outside = polygonClipping.difference(polygonsOf(feature), cellPolygons);
+    } catch (error) {
+      result.push(clippingIssue(error, feature.getGeometry()!.clone()));
+      continue;
+    }
+    if (outside.length === 0 || multiArea(outside) < AREA_TOLERANCE) continue;
+    result.push({
+      type: 'outside-cell',
+      severity: 'warning',
+      message: 'Field extends outside the grid cell and will be clipped on export',
+      geometry: new MultiPolygon(outside),
+    });
+  }
+}
+
+/**
+ * Check the fields of the selected grid cell for invalid geometries, overlaps,
+ * small fields, gaps between neighbours and parts outside the cell.
+ */
+function validate() {
+  if (!map) return;
+  const cell = gridSnapSource.getFeatures()[0];
+  const cellExtent = cell?.getGeometry()?.getExtent();
+  const features = editSource.getFeatures().filter((feature) => {
+    const geom = feature.getGeometry();
+    if (!geom) return false;
+    const type = geom.getType();
+    if (type !== 'Polygon' && type !== 'MultiPolygon') return false;
+    if (feature.get(REVIEW_STATUS) === 'rejected') return false;
+    return !cellExtent || intersects(geom.getExtent(), cellExtent);
+  });
+
+  const result: ValidationIssue[] = [];
+  const validFeatures = features.filter((feature) => checkFeature(feature, result));
+  checkOverlaps(validFeatures, result);
+  checkGaps(validFeatures, result);
+  checkOutsideCell(validFeatures, result);
+
+  result.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  issues.value = result;
+  checked.value = true;
+  validationSource.clear();
+}
+
+function scheduleRevalidation() {
+  if (!checked.value) return;
+  clearTimeout(revalidateTimeout);
+  revalidateTimeout = setTimeout(validate, REVALIDATE_DELAY);
+}
+
+function showIssue(issue: ValidationIssue) {
+  if (!map) return;
+  validationSource.clear();
+  validationSource.addFeature(new Feature(issue.geometry));
+  const size = map.getSize();
+  const width = size?.[0] ?? 0;
+  const height = size?.[1] ?? 0;
+  map.getView().fit(buffer(issue.geometry.getExtent(), 20), {
+    padding: [height * 0.25, width * 0.25, height * 0.25, width * 0.25],
+    maxZoom: 19,
+    duration: 500,
+  });
+}
+
+function clearValidation() {
+  clearTimeout(revalidateTimeout);
+  issues.value = [];
+  checked.value = false;
+  validationSource.clear();
+}
+
+export function initValidation(mapInstance: Map) {
+  map = mapInstance;
+  map.addLayer(validationLayer);
+  editSource.on('change', scheduleRevalidation);
+  gridSnapSource.on('change', scheduleRevalidation);
+}
+
+export function useValidation() {
+  return {
+    issues,
+    checked,
+    hasBlockingErrors,
+    validate,
+    showIssue,
+    clearValidation,
+  };
+}
@@ -0,0 +1,90 @@
+import type { Feature, FeatureCollection, Polygon as GeoJSONPolygon } from 'geojson';
+import { LineString, Polygon } from 'ol/geom';
+import { getArea, getLength } from 'ol/sphere';
+
+export const FIBOA_VERSION = '0.2.0';
+
+/**
+ * The fiboa core properties, plus the FTW grid cell the field belongs to.
+ */
+export interface FiboaProperties {
+  id: string;
+  /** Geodesic area in hectares */
+  area: number;
+  /** Geodesic perimeter in meters */
+  perimeter: number;
+  determination_datetime: string;
+  determination_method: 'manual';
+  grid_cell_id: string;
+  [key: string]: unknown;
+}
+
+export type ExportFeature = Feature<GeoJSONPolygon, FiboaProperties>;
+
+export interface Exporter {
+  id: string;
+  name: string;
+  extension: string;
+  write(features: ExportFeature[]): Blob | Promise<Blob>;
+}
+
+/**
+ * Add the derived fiboa core properties to the clipped polygons of a grid
+ * cell. Coordinates are expected in EPSG:4326.
+ */
+export function toFiboaFeatures(
+  features: Feature<GeoJSONPolygon>[],
+  gridCellId: string,
+  datetime = new Date(),
+): ExportFeature[] {
+  const options = { projection: 'EPSG:4326' };
+  return features.map((feature, index) => {
+    const { coordinates } = feature.geometry;
+    const area = getArea(new Polygon(coordinates), options) / 10000;
+    const perimeter = coordinates.reduce(
+      (sum, ring) => sum + getLength(new LineString(ring), options),
+      0,
+    );
+    return {
+      type: 'Feature',
+      id: `${gridCellId}-${index + 1}`,
+      geometry: feature.geometry,
+      properties: {
+        ...feature.properties,
+        id: `${gridCellId}-${index + 1}`,
+        area,
+        perimeter,
+        determination_datetime: datetime.toISOString(),
+        determination_method: 'manual',
+        grid_cell_id: gridCellId,
+      },
+    };
+  });
+}
+
+export function toFeatureCollection(features: ExportFeature[]): FeatureCollection {
+  return { type: 'FeatureCollection', features };
+}
+
+const DERIVED_PROPERTIES = [
+  'id',
+  'area',
+  'perimeter',
+  'determination_datetime',
+  'determination_method',
+  'grid_cell_id',
+];
+
+/**
+ * Strip the derived fiboa core properties again, leaving the attributes that
+ * were edited in the app. `toFiboaFeatures` recomputes them on export.
+ */
+export function fromFiboaFeatures(features: Feature<GeoJSONPolygon>[]): Feature<GeoJSONPolygon>[] {
+  return features.map((feature) => ({
+    type: 'Feature',
+    geometry: feature.geometry,
+    properties: Object.fromEntries(
+      Object.entries(feature.properties ?? {}).filter(([key]) => !DERIVED_PROPERTIES.includes(key)),
+    ),
+  }));
+}
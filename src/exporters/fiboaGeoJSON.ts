@@ -0,0 +1,14 @@
+import { FIBOA_VERSION, toFeatureCollection, type Exporter } from './common';
+
+export const fiboaGeoJSONExporter: Exporter = {
+  id: 'fiboa-geojson',
+  name: 'fiboa GeoJSON',
+  extension: 'geojson',
+  write(features) {
+    const geojson = {
+      ...toFeatureCollection(features),
+      fiboa: { fiboa_version: FIBOA_VERSION, fiboa_extensions: [] },
+    };
+    return new Blob([JSON.stringify(geojson)], { type: 'application/geo+json' });
+  },
+};
@@ -0,0 +1,83 @@
+import type { BasicType, ColumnSource } from 'hyparquet-writer';
+import { FIBOA_VERSION, type Exporter, type ExportFeature } from './common';
+
+/** Types of the fiboa core columns, other attributes are written as strings */
+const CORE_COLUMN_TYPES: Record<string, BasicType> = {
+  id: 'STRING',
+  area: 'DOUBLE',
+  perimeter: 'DOUBLE',
+  determination_datetime: 'TIMESTAMP',
+  determination_method: 'STRING',
+  grid_cell_id: 'STRING',
+};
+
+/**
+ * Bounds of the features, undefined without features. Only the exterior rings
+ * are scanned, holes lie within them.
+ */
+function bbox(features: ExportFeature[]) {
+  if (features.length === 0) return undefined;
+  const extent = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const feature of features) {
+    for (const [x, y] of feature.geometry.coordinates[0]!) {
+      extent[0] = Math.min(extent[0]!, x!);
+      extent[1] = Math.min(extent[1]!, y!);
+      extent[2] = Math.max(extent[2]!, x!);
+      extent[3] = Math.max(extent[3]!, y!);
+    }
+  }
+  return extent;
+}
+
+function attributeValue(value: unknown) {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export const geoParquetExporter: Exporter = {
+  id: 'fiboa-geoparquet',
+  name: 'fiboa GeoParquet',
+  extension: 'parquet',
+  async write(features) {
+    const { geojsonToWkb, parquetWriteBuffer } = await import('hyparquet-writer');
+
+    const attributeNames = new Set<string>();
+    for (const feature of features) {
+      Object.keys(feature.properties).forEach((key) => attributeNames.add(key));
+    }
+    const columnData: ColumnSource[] = [...attributeNames].map((name) => {
+      const type = CORE_COLUMN_TYPES[name];
+      const values = features.map((f) => f.properties[name]);
+      if (name === 'determination_datetime') {
+        return { name, type, data: values.map((v) => new Date(v as string)) };
+      }
+      return type
+        ? { name, type, data: values }
+        : { name, type: 'STRING', data: values.map(attributeValue) };
+    });
+    columnData.push({
+      name: 'geometry',
+      type: 'BYTE_ARRAY',
+      data: features.map((f) => geojsonToWkb(f.geometry)),
+    });
+
+    const geo = {
+      version: '1.1.0',
+      primary_column: 'geometry',
+      columns: {
+        // JSON.stringify leaves out an undefined bbox
+        geometry: { encoding: 'WKB', geometry_types: ['Polygon'], bbox: bbox(features) },
+      },
+    };
+    const fiboa = { fiboa_version: FIBOA_VERSION, fiboa_extensions: [] };
+
+    const buffer = parquetWriteBuffer({
+      columnData,
+      kvMetadata: [
+        { key: 'geo', value: JSON.stringify(geo) },
+        { key: 'fiboa', value: JSON.stringify(fiboa) },
+      ],
+    });
+    return new Blob([buffer], { type: 'application/vnd.apache.parquet' });
+  },
+};
@@ -0,0 +1,20 @@
+import type { Exporter } from './common';
+import { fiboaGeoJSONExporter } from './fiboaGeoJSON';
+import { geoParquetExporter } from './geoParquet';
+
+export {
+  fromFiboaFeatures,
+  toFiboaFeatures,
+  type Exporter,
+  type ExportFeature,
+  type FiboaProperties,
+} from './common';
+
+/**
+ * Registered export formats. The first one is the default.
+ */
+export const exporters: Exporter[] = [fiboaGeoJSONExporter, geoParquetExporter];
+
+export function getExporter(id: string): Exporter {
+  return exporters.find((exporter) => exporter.id === id) ?? exporters[0]!;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type polygonClipping from 'polygon-clipping';
+import { compareFields } from '@/geometry';
+
+type MultiPolygon = polygonClipping.MultiPolygon;
+
+function rectangle(x: number, y: number, width: number, height: number): MultiPolygon {
+  return [
+    [
+      [
+        [x, y],
+        [x + width, y],
+        [x + width, y + height],
+        [x, y + height],
+        [x, y],
+      ],
+    ],
+  ];
+}
+
+/** Planar area, good enough for rectangles */
+function area(polygons: MultiPolygon) {
+  return polygons.reduce((sum, polygon) => {
+    const ring = polygon[0]!;
+    let ringArea = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      ringArea += ring[i]![0] * ring[i + 1]![1] - ring[i + 1]![0] * ring[i]![1];
+    }
+    return sum + Math.abs(ringArea / 2);
+  }, 0);
+}
+
+describe('compareFields', () => {
+  it('finds unchanged and reshaped fields', () => {
+    const baseline = [rectangle(0, 0, 10, 10), rectangle(20, 0, 10, 10)];
+    const edited = [rectangle(0, 0, 10, 10), rectangle(20, 0, 8, 10)];
+
+    const { counts, baseline: before, edited: after } = compareFields(baseline, edited, area);
+
+    expect(after).toEqual(['unchanged', 'reshaped']);
+    expect(before).toEqual([undefined, undefined]);
+    expect(counts).toMatchObject({ unchanged: 1, reshaped: 1, added: 0, removed: 0 });
+  });
+
+  it('finds added and removed fields', () => {
+    const { counts, baseline, edited } = compareFields(
+      [rectangle(0, 0, 10, 10)],
+      [rectangle(20, 0, 10, 10)],
+      area,
+    );
+
+    expect(baseline).toEqual(['removed']);
+    expect(edited).toEqual(['added']);
+    expect(counts).toMatchObject({ added: 1, removed: 1 });
+  });
+
+  it('counts a split field once and marks all its parts', () => {
+    const { counts, edited } = compareFields(
+      [rectangle(0, 0, 10, 10)],
+      [rectangle(0, 0, 5, 10), rectangle(5, 0, 5, 10)],
+      area,
+    );
+
+    expect(edited).toEqual(['split', 'split']);
+    expect(counts).toMatchObject({ split: 1, reshaped: 0, added: 0 });
+  });
+
+  it('finds fields merged from several predictions', () => {
+    const { counts, baseline, edited } = compareFields(
+      [rectangle(0, 0, 5, 10), rectangle(5, 0, 5, 10)],
+      [rectangle(0, 0, 10, 10)],
+      area,
+    );
+
+    expect(edited).toEqual(['merged']);
+    expect(baseline).toEqual([undefined, undefined]);
+    expect(counts).toMatchObject({ merged: 1, removed: 0 });
+  });
+
+  it('does not match fields that only touch or barely overlap', () => {
+    const { edited } = compareFields(
+      [rectangle(0, 0, 10, 10)],
+      [rectangle(10, 0, 10, 10), rectangle(9, 0, 10, 10)],
+      area,
+    );
+
+    expect(edited).toEqual(['added', 'added']);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cleanClosedRing,
+  isValidPolygon,
+  orthogonalizeRing,
+  simplifyLine,
+  smoothLine,
+} from '@/geometry';
+
+const square = [
+  [0, 0],
+  [100, 0],
+  [100, 100],
+  [0, 100],
+  [0, 0],
+];
+
+describe('simplifyLine', () => {
+  it('drops vertices within the tolerance and keeps both ends', () => {
+    const line = [
+      [0, 0],
+      [50, 0.5],
+      [100, 0],
+      [100, 50],
+    ];
+
+    expect(simplifyLine(line, 1)).toEqual([
+      [0, 0],
+      [100, 0],
+      [100, 50],
+    ]);
+    expect(simplifyLine(line, 0.1)).toEqual(line);
+  });
+});
+
+describe('smoothLine', () => {
+  it('replaces a pixel staircase by its diagonal', () => {
+    const staircase = [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [20, 10],
+      [20, 20],
+    ];
+
+    const smoothed = smoothLine(staircase, 10);
+
+    // All inner vertices lie on the diagonal
+    for (const [x, y] of smoothed.slice(1, -1)) expect(x! - y!).toBe(5);
+    expect(smoothed[0]).toEqual([0, 0]);
+    expect(smoothed[smoothed.length - 1]).toEqual([20, 20]);
+  });
+});
+
+describe('cleanClosedRing', () => {
+  it('simplifies a noisy ring and keeps it closed', () => {
+    const noisy = [
+      [0, 0],
+      [50, 0.3],
+      [100, 0],
+      [99.8, 50],
+      [100, 100],
+      [50, 100.2],
+      [0, 100],
+      [0.2, 50],
+      [0, 0],
+    ];
+
+    const cleaned = cleanClosedRing(noisy, 1, undefined);
+
+    expect(cleaned).toEqual(square);
+  });
+
+  it('can make a ring cross itself with a large tolerance', () => {
+    const ring = [
+      [15, 51],
+      [1, 21],
+      [-14, 96],
+      [-80, 35],
+      [-30, 3],
+      [-4, -10],
+      [76, -26],
+      [14, -4],
+      [15, 51],
+    ];
+
+    const cleaned = cleanClosedRing(ring, 15, undefined);
+
+    expect(isValidPolygon([ring])).toBe(true);
+    expect(isValidPolygon([cleaned])).toBe(false);
+  });
+});
+
+describe('orthogonalizeRing', () => {
+  it('squares the corners of a nearly rectangular ring', () => {
+    const skewed = [
+      [0, 0],
+      [100, 2],
+      [98, 102],
+      [-2, 100],
+      [0, 0],
+    ];
+
+    const squared = orthogonalizeRing(skewed)!;
+
+    expect(squared).toHaveLength(5);
+    for (let i = 0; i < 4; i++) {
+      const [a, b, c] = [squared[i]!, squared[i + 1]!, squared[(i + 2) % 4]!];
+      const dot = (b[0]! - a[0]!) * (c[0]! - b[0]!) + (b[1]! - a[1]!) * (c[1]! - b[1]!);
+      expect(dot).toBeCloseTo(0, 6);
+    }
+  });
+
+  it('leaves rings with edges off the main axes alone', () => {
+    const triangle = [
+      [0, 0],
+      [100, 0],
+      [50, 80],
+      [0, 0],
+    ];
+
+    expect(orthogonalizeRing(triangle)).toBeUndefined();
+  });
+});
+
+describe('isValidPolygon', () => {
+  it('accepts a simple polygon with a hole', () => {
+    const hole = [
+      [25, 25],
+      [25, 75],
+      [75, 75],
+      [75, 25],
+      [25, 25],
+    ];
+
+    expect(isValidPolygon([square])).toBe(true);
+    expect(isValidPolygon([square, hole])).toBe(true);
+  });
+
+  it('rejects self-intersecting and collapsed rings', () => {
+    const bowtie = [
+      [0, 0],
+      [100, 100],
+      [100, 0],
+      [0, 100],
+      [0, 0],
+    ];
+    const collapsed = [
+      [0, 0],
+      [100, 0],
+      [50, 0],
+      [0, 0],
+    ];
+    const crossingHole = [
+      [50, 50],
+      [150, 50],
+      [150, 60],
+      [50, 60],
+      [50, 50],
+    ];
+
+    expect(isValidPolygon([bowtie])).toBe(false);
+    expect(isValidPolygon([collapsed])).toBe(false);
+    expect(isValidPolygon([square, crossingHole])).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createGeometryEngine,
+  GeometryCancelledError,
+  GeometryEngineError,
+  type GeometryEngine,
+  type GeometryWorker,
+} from '@/geometry';
+import type { GeometryRequest, GeometryResponse } from '@/geometry/engine';
+
+/** Worker stand-in that answers only when the test tells it to */
+class FakeWorker extends EventTarget {
+  requests: GeometryRequest[] = [];
+  terminated = false;
+
+  postMessage(request: GeometryRequest) {
+    this.requests.push(request);
+  }
+
+  respond(response: GeometryResponse) {
+    if (!this.terminated) this.dispatchEvent(new MessageEvent('message', { data: response }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const input = { features: [] };
+
+describe('createGeometryEngine', () => {
+  let workers: FakeWorker[];
+  let engine: GeometryEngine;
+
+  beforeEach(() => {
+    workers = [];
+    engine = createGeometryEngine(() => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker as unknown as GeometryWorker;
+    });
+  });
+
+  it('runs operations one at a time', async () => {
+    const onProgress = vi.fn();
+    const first = engine.run('merge', input, { onProgress });
+    const second = engine.run('merge', input);
+    const [worker] = workers;
+
+    expect(worker!.requests).toHaveLength(1);
+    worker!.respond({ id: worker!.requests[0]!.id, type: 'progress', done: 1, total: 2 });
+    worker!.respond({ id: worker!.requests[0]!.id, type: 'result', output: [] });
+    expect(worker!.requests).toHaveLength(2);
+    worker!.respond({ id: worker!.requests[1]!.id, type: 'result', output: [[]] });
+
+    expect(await first).toEqual([]);
+    expect(await second).toEqual([[]]);
+    expect(onProgress).toHaveBeenCalledWith(1, 2);
+    expect(workers).toHaveLength(1);
+  });
+
+  it('drops cancelled operations from the queue', async () => {
+    const controller = new AbortController();
+    const first = engine.run('merge', input);
+    const second = engine.run('merge', input, { signal: controller.signal });
+    const third = engine.run('merge', input);
+    const [worker] = workers;
+
+    controller.abort();
+    worker!.respond({ id: worker!.requests[0]!.id, type: 'result', output: [] });
+
+    await expect(second).rejects.toThrow(GeometryCancelledError);
+    await first;
+    expect(worker!.requests.map((request) => request.id)).toEqual([1, 3]);
+    worker!.respond({ id: 3, type: 'result', output: [] });
+    await third;
+  });
+
+  it('terminates the worker to cancel a running operation', async () => {
+    const controller = new AbortController();
+    const running = engine.run('merge', input, { signal: controller.signal });
+    const next = engine.run('merge', input);
+
+    controller.abort();
+
+    await expect(running).rejects.toThrow(GeometryCancelledError);
+    expect(workers[0]!.terminated).toBe(true);
+    expect(workers[1]!.requests).toHaveLength(1);
+    workers[1]!.respond({ id: workers[1]!.requests[0]!.id, type: 'result', output: [] });
+    expect(await next).toEqual([]);
+  });
+
+  it('rejects operations that fail in the worker', async () => {
+    const failing = engine.run('merge', input);
+    workers[0]!.respond({ id: 1, type: 'error', message: 'Unable to complete output ring' });
+
+    await expect(failing).rejects.toThrow(GeometryEngineError);
+  });
+
+  it('does not start operations that were cancelled before', async () => {
+    await expect(engine.run('merge', input, { signal: AbortSignal.abort() })).rejects.toThrow(
+      GeometryCancelledError,
+    );
+    expect(workers).toHaveLength(0);
+  });
+});
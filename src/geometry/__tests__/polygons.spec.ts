@@ -0,0 +1,362 @@
+import { describe, expect, it, vi } from 'vitest';
+import type polygonClipping from 'polygon-clipping';
+import {
+  bufferLine,
+  clipToCell,
+  cutByShape,
+  findSelfIntersection,
+  locateOnRing,
+  mergePolygons,
+  reshapeRing,
+  segmentCrossings,
+  splitByLine,
+  splitByShape,
+} from '@/geometry';
+
+type MultiPolygon = polygonClipping.MultiPolygon;
+
+/** Planar area of a (multi)polygon, holes subtracted */
+function area(polygons: MultiPolygon) {
+  return polygons.reduce(
+    (sum, polygon) =>
+      sum +
+      polygon.reduce((polygonSum, ring, index) => {
+        let ringArea = 0;
+        for (let i = 0; i < ring.length - 1; i++) {
+          ringArea += ring[i]![0] * ring[i + 1]![1] - ring[i + 1]![0] * ring[i]![1];
+        }
+        return polygonSum + (index === 0 ? 1 : -1) * Math.abs(ringArea / 2);
+      }, 0),
+    0,
+  );
+}
+
+function square(x: number, y: number, size: number): polygonClipping.Polygon {
+  return [
+    [
+      [x, y],
+      [x + size, y],
+      [x + size, y + size],
+      [x, y + size],
+      [x, y],
+    ],
+  ];
+}
+
+// A 0.01° field at the scale the split buffer is meant for
+const X = 13.4;
+const Y = 52.5;
+const SIZE = 0.01;
+const field: MultiPolygon = [square(X, Y, SIZE)];
+/** Area lost to the split buffer, relative to the field */
+const SPLIT_TOLERANCE = 1e-5;
+
+function verticalLine(x: number) {
+  return [
+    [x, Y - SIZE / 2],
+    [x, Y + SIZE * 1.5],
+  ];
+}
+
+describe('splitByLine', () => {
+  it('splits a field into parts that share their vertices along the line', () => {
+    const line = verticalLine(X + SIZE / 2);
+    const parts = splitByLine(field, line);
+
+    expect(parts).toHaveLength(2);
+    expect(area(parts)).toBeCloseTo(area(field), 12);
+    const onLine = parts.map((part) =>
+      part[0]!
+        .filter(([x]) => Math.abs(x - line[0]![0]!) < 1e-7)
+        .map((point) => point.join())
+        .sort(),
+    );
+    expect(new Set(onLine[0])).toEqual(new Set(onLine[1]));
+    for (const [x] of parts.flat(2)) {
+      // Vertices in the buffer gap were snapped onto the line exactly
+      if (Math.abs(x - line[0]![0]!) < 1e-7) expect(x).toBe(line[0]![0]);
+    }
+  });
+
+  it('leaves a field whole when the line only touches it', () => {
+    const touchingVertex = [
+      [X + SIZE, Y + SIZE],
+      [X + SIZE * 2, Y + SIZE * 2],
+    ];
+    const touchingEdge = [
+      [X + SIZE, Y + SIZE / 2],
+      [X + SIZE * 2, Y + SIZE / 2],
+    ];
+
+    for (const line of [touchingVertex, touchingEdge]) {
+      const parts = splitByLine(field, line);
+      expect(parts).toHaveLength(1);
+      expect(area(parts) / area(field)).toBeCloseTo(1, 5);
+    }
+  });
+
+  it('splits a field with a hole through the hole', () => {
+    const hole = square(X + SIZE * 0.4, Y + SIZE * 0.4, SIZE * 0.2)[0]!
+      .slice()
+      .reverse();
+    const withHole: MultiPolygon = [[field[0]![0]!, hole]];
+
+    const parts = splitByLine(withHole, verticalLine(X + SIZE / 2));
+
+    expect(parts).toHaveLength(2);
+    // The hole is opened up into a notch on either side
+    for (const part of parts) expect(part).toHaveLength(1);
+    expect(Math.abs(area(parts) - area(withHole)) / area(withHole)).toBeLessThan(SPLIT_TOLERANCE);
+  });
+
+  it('keeps a hole that the line passes by', () => {
+    const hole = square(X + SIZE * 0.1, Y + SIZE * 0.4, SIZE * 0.2)[0]!
+      .slice()
+      .reverse();
+    const withHole: MultiPolygon = [[field[0]![0]!, hole]];
+
+    const parts = splitByLine(withHole, verticalLine(X + SIZE / 2));
+
+    expect(parts.map((part) => part.length).sort()).toEqual([1, 2]);
+  });
+
+  it('splits only the crossed parts of a MultiPolygon', () => {
+    const multi: MultiPolygon = [square(X, Y, SIZE), square(X + SIZE * 2, Y, SIZE)];
+
+    const parts = splitByLine(multi, verticalLine(X + SIZE / 2));
+
+    expect(parts).toHaveLength(3);
+    expect(Math.abs(area(parts) - area(multi)) / area(multi)).toBeLessThan(SPLIT_TOLERANCE);
+  });
+
+  it('ignores duplicate vertices in the line', () => {
+    const [start, end] = verticalLine(X + SIZE / 2);
+    const line = [start!, start!, [X + SIZE / 2, Y + SIZE / 2], [X + SIZE / 2, Y + SIZE / 2], end!];
+
+    expect(splitByLine(field, line)).toHaveLength(2);
+    expect(splitByLine(field, [start!, start!])).toEqual([]);
+  });
+
+  it('splits along a bent line', () => {
+    const line = [
+      [X - SIZE, Y + SIZE * 0.2],
+      [X + SIZE * 0.5, Y + SIZE * 0.8],
+      [X + SIZE * 2, Y + SIZE * 0.2],
+    ];
+
+    const parts = splitByLine(field, line);
+
+    expect(parts).toHaveLength(2);
+    expect(Math.abs(area(parts) - area(field)) / area(field)).toBeLessThan(SPLIT_TOLERANCE);
+  });
+
+  it('does not cut off a sliver along the grid cell edge', () => {
+    // The field edge lies on the cell edge, and so does the line
+    const parts = splitByLine(field, verticalLine(X));
+
+    expect(parts).toHaveLength(1);
+    expect(area(parts)).toBeCloseTo(area(field), 12);
+    expect(Math.min(...parts[0]![0]!.map(([x]) => x))).toBe(X);
+  });
+});
+
+describe('splitByShape', () => {
+  it('splits a field into the parts inside and outside a shape', () => {
+    const shape: MultiPolygon = [square(X + SIZE * 0.5, Y + SIZE * 0.5, SIZE)];
+
+    const parts = splitByShape(field, shape);
+
+    expect(parts).toHaveLength(2);
+    expect(area(parts)).toBeCloseTo(area(field), 12);
+  });
+
+  it('gives no parts for shapes that contain or miss the field', () => {
+    expect(splitByShape(field, [square(X - SIZE, Y - SIZE, SIZE * 3)])).toEqual([]);
+    expect(splitByShape(field, [square(X + SIZE * 2, Y, SIZE)])).toEqual([]);
+  });
+});
+
+describe('cutByShape', () => {
+  it('subtracts the shape from the fields it overlaps', () => {
+    const shape: MultiPolygon = [square(X + SIZE * 0.25, Y + SIZE * 0.25, SIZE * 0.5)];
+    const outside: MultiPolygon = [square(X + SIZE * 2, Y, SIZE)];
+    const inside: MultiPolygon = [square(X + SIZE * 0.4, Y + SIZE * 0.4, SIZE * 0.2)];
+
+    const [cut, untouched, removed] = cutByShape([field, outside, inside], shape);
+
+    // A cut inside a field becomes a hole
+    expect(cut).toHaveLength(1);
+    expect(cut![0]).toHaveLength(2);
+    expect(area(cut!)).toBeCloseTo(area(field) * 0.75, 12);
+    expect(untouched).toBeUndefined();
+    expect(removed).toEqual([]);
+  });
+});
+
+describe('mergePolygons', () => {
+  it('unions adjacent fields into one polygon', () => {
+    const merged = mergePolygons([[square(X, Y, SIZE)], [square(X + SIZE, Y, SIZE)]]);
+
+    expect(merged).toHaveLength(1);
+    expect(area(merged)).toBeCloseTo(2 * SIZE * SIZE, 12);
+  });
+
+  it('keeps disjoint parts of a union as separate polygons', () => {
+    const merged = mergePolygons([[square(X, Y, SIZE)], [square(X + SIZE * 2, Y, SIZE)]]);
+
+    expect(merged).toHaveLength(2);
+  });
+
+  it('reports progress for large merges', () => {
+    const features = Array.from({ length: 45 }, (_, i) => [square(X + i * SIZE, Y, SIZE)]);
+    const progress = vi.fn();
+
+    const merged = mergePolygons(features, progress);
+
+    expect(merged).toHaveLength(1);
+    expect(progress).toHaveBeenLastCalledWith(45, 45);
+  });
+});
+
+describe('clipToCell', () => {
+  const cell: MultiPolygon = [square(X, Y, SIZE * 2)];
+
+  it('clips each feature to the cell', () => {
+    const inside: MultiPolygon = [square(X, Y, SIZE)];
+    const crossing: MultiPolygon = [square(X + SIZE * 1.5, Y, SIZE)];
+    const outside: MultiPolygon = [square(X + SIZE * 3, Y, SIZE)];
+
+    const [a, b, c] = clipToCell([inside, crossing, outside], cell);
+
+    // Fields on the cell edge keep their exact edge
+    expect(a).toEqual(inside);
+    expect(area(b!)).toBeCloseTo(area(crossing) / 2, 12);
+    expect(c).toEqual([]);
+  });
+
+  it('gives several polygons for a feature that enters the cell twice', () => {
+    // A U shape below the cell, with both arms reaching into it
+    const u: MultiPolygon = [
+      [
+        [
+          [X + SIZE * 0.2, Y - SIZE],
+          [X + SIZE * 1.8, Y - SIZE],
+          [X + SIZE * 1.8, Y + SIZE],
+          [X + SIZE * 1.4, Y + SIZE],
+          [X + SIZE * 1.4, Y - SIZE * 0.5],
+          [X + SIZE * 0.6, Y - SIZE * 0.5],
+          [X + SIZE * 0.6, Y + SIZE],
+          [X + SIZE * 0.2, Y + SIZE],
+          [X + SIZE * 0.2, Y - SIZE],
+        ],
+      ],
+    ];
+
+    const [clipped] = clipToCell([u], cell);
+
+    expect(clipped).toHaveLength(2);
+    expect(area(clipped!)).toBeCloseTo(2 * SIZE * 0.4 * SIZE, 12);
+  });
+});
+
+describe('segmentCrossings', () => {
+  it('finds where a segment crosses polygon rings', () => {
+    const crossings = segmentCrossings(
+      [X - SIZE, Y + SIZE / 2],
+      [X + SIZE * 2, Y + SIZE / 2],
+      field,
+    );
+
+    expect(crossings.sort()).toEqual([1 / 3, 2 / 3].map((t) => expect.closeTo(t, 12)));
+  });
+});
+
+describe('reshapeRing', () => {
+  it('replaces the shorter section of the boundary with the line', () => {
+    const ring = field[0]![0]!;
+    const start = [X + SIZE * 0.25, Y];
+    const end = [X + SIZE * 0.75, Y];
+    const line = [start, [X + SIZE * 0.5, Y - SIZE * 0.5], end];
+
+    const reshaped = reshapeRing(
+      field,
+      0,
+      0,
+      line,
+      locateOnRing(start, ring),
+      locateOnRing(end, ring),
+    );
+
+    // The bump out of the bottom edge adds a triangle
+    expect(area(reshaped!)).toBeCloseTo(area(field) + (SIZE * 0.5 * SIZE * 0.5) / 2, 12);
+  });
+});
+
+describe('bufferLine', () => {
+  it('covers every segment of the line', () => {
+    const buffered = bufferLine(
+      [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+      ],
+      0.1,
+    );
+
+    expect(buffered).toHaveLength(1);
+    expect(area(buffered!)).toBeCloseTo(2 * 1.2 * 0.2 - 0.2 * 0.2, 12);
+  });
+});
+
+describe('findSelfIntersection', () => {
+  const outer = square(0, 0, 4)[0]!;
+
+  it('accepts a hole touching the outer ring at a vertex', () => {
+    const hole = [
+      [0, 2],
+      [2, 1],
+      [2, 3],
+      [0, 2],
+    ];
+
+    expect(findSelfIntersection([outer, hole])).toBeUndefined();
+  });
+
+  it('finds rings crossing or overlapping each other', () => {
+    const crossing = square(3, 1, 2)[0]!;
+    const overlapping = [
+      [0, 1],
+      [1, 1],
+      [1, 2],
+      [0, 2],
+      [0, 1],
+    ];
+
+    expect(findSelfIntersection([outer, crossing])).toBeDefined();
+    expect(findSelfIntersection([outer, overlapping])).toBeDefined();
+  });
+
+  it('finds a ring crossing or touching itself', () => {
+    const bowtie = [
+      [0, 0],
+      [2, 2],
+      [2, 0],
+      [0, 2],
+      [0, 0],
+    ];
+    const pinched = [
+      [0, 0],
+      [2, 0],
+      [2, 2],
+      [1, 1],
+      [1, 2],
+      [2, 2],
+      [2, 3],
+      [0, 3],
+      [0, 0],
+    ];
+
+    expect(findSelfIntersection([bowtie])).toEqual([1, 1]);
+    expect(findSelfIntersection([pinched])).toEqual([2, 2]);
+  });
+});
@@ -0,0 +1,112 @@
+import polygonClipping from 'polygon-clipping';
+
+type MultiPolygon = polygonClipping.MultiPolygon;
+
+export type FieldChange = 'added' | 'removed' | 'reshaped' | 'split' | 'merged' | 'unchanged';
+
+export interface FieldComparison {
+  /** Number of fields per change */
+  counts: Record<FieldChange, number>;
+  /** Change of each baseline field, only set for removed ones */
+  baseline: (FieldChange | undefined)[];
+  /** Change of each edited field */
+  edited: FieldChange[];
+}
+
+/** Share of the smaller of two fields they must overlap by to be matched */
+const MATCH_RATIO = 0.5;
+/** Matched fields with at least this IoU are unchanged */
+const UNCHANGED_IOU = 0.99;
+
+interface Field {
+  polygons: MultiPolygon;
+  area: number;
+  bbox: [number, number, number, number];
+  links: Link[];
+}
+
+interface Link {
+  baseline: Field;
+  edited: Field;
+  overlap: number;
+}
+
+function bboxOf(polygons: MultiPolygon): [number, number, number, number] {
+  const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of polygons.flat(2)) {
+    bbox[0] = Math.min(bbox[0], x);
+    bbox[1] = Math.min(bbox[1], y);
+    bbox[2] = Math.max(bbox[2], x);
+    bbox[3] = Math.max(bbox[3], y);
+  }
+  return bbox;
+}
+
+function bboxesIntersect(a: Field['bbox'], b: Field['bbox']) {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+function toFields(polygons: MultiPolygon[], area: (polygons: MultiPolygon) => number): Field[] {
+  return polygons.map((p) => ({ polygons: p, area: area(p), bbox: bboxOf(p), links: [] }));
+}
+
+/**
+ * Match edited fields to baseline fields by overlap. A baseline field and an
+ * edited field are matched when they share most of the smaller one's area, so
+ * a split field matches all its parts and a merged field all its sources.
+ */
+function linkFields(baseline: Field[], edited: Field[], area: (polygons: MultiPolygon) => number) {
+  for (const b of baseline) {
+    for (const e of edited) {
+      if (!bboxesIntersect(b.bbox, e.bbox)) continue;
+      const overlap = area(polygonClipping.intersection(b.polygons, e.polygons));
+      if (overlap > MATCH_RATIO * Math.min(b.area, e.area)) {
+        const link = { baseline: b, edited: e, overlap };
+        b.links.push(link);
+        e.links.push(link);
+      }
+    }
+  }
+}
+
+/**
+ * Classify how edited fields changed compared to baseline fields, e.g. the
+ * imported predictions. `area` measures polygons in the unit of the caller,
+ * e.g. geodesic m².
+ */
+export function compareFields(
+  baselinePolygons: MultiPolygon[],
+  editedPolygons: MultiPolygon[],
+  area: (polygons: MultiPolygon) => number,
+): FieldComparison {
+  const baseline = toFields(baselinePolygons, area);
+  const edited = toFields(editedPolygons, area);
+  linkFields(baseline, edited, area);
+
+  const counts = { added: 0, removed: 0, reshaped: 0, split: 0, merged: 0, unchanged: 0 };
+  const baselineChanges = baseline.map((b): FieldChange | undefined => {
+    if (b.links.length === 0) {
+      counts.removed++;
+      return 'removed';
+    }
+    if (b.links.length > 1) counts.split++;
+    return undefined;
+  });
+  const editedChanges = edited.map((e): FieldChange => {
+    let change: FieldChange;
+    if (e.links.length === 0) {
+      change = 'added';
+    } else if (e.links.length > 1) {
+      change = 'merged';
+    } else if (e.links[0]!.baseline.links.length > 1) {
+      // Counted once per split baseline field
+      return 'split';
+    } else {
+      const { baseline: b, overlap } = e.links[0]!;
+      change = overlap / (b.area + e.area - overlap) >= UNCHANGED_IOU ? 'unchanged' : 'reshaped';
+    }
+    counts[change]++;
+    return change;
+  });
+  return { counts, baseline: baselineChanges, edited: editedChanges };
+}
@@ -0,0 +1,200 @@
+import { findSelfIntersection } from './polygons';
+
+/**
+ * Ring operations behind the cleanup tool: simplifying, smoothing raster
+ * staircases and squaring corners, on coordinates in a planar projection.
+ */
+
+export type Coords = number[][];
+
+/** Maximum deviation in degrees of an edge from the main axes for orthogonalizing */
+const ORTHOGONAL_THRESHOLD = 15;
+
+export const coordKey = (c: number[]) => `${c[0]},${c[1]}`;
+
+function distanceToSegmentSq(p: number[], a: number[], b: number[]) {
+  const dx = b[0]! - a[0]!;
+  const dy = b[1]! - a[1]!;
+  const lenSq = dx * dx + dy * dy;
+  const t =
+    lenSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p[0]! - a[0]!) * dx + (p[1]! - a[1]!) * dy) / lenSq));
+  return (p[0]! - a[0]! - t * dx) ** 2 + (p[1]! - a[1]! - t * dy) ** 2;
+}
+
+/**
+ * Douglas-Peucker simplification of an open line, keeping both ends.
+ */
+export function simplifyLine(coords: Coords, tolerance: number): Coords {
+  if (coords.length <= 2) return coords;
+  const keep = new Array<boolean>(coords.length).fill(false);
+  keep[0] = keep[coords.length - 1] = true;
+  const stack: [number, number][] = [[0, coords.length - 1]];
+  const toleranceSq = tolerance * tolerance;
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = 0;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegmentSq(coords[i]!, coords[first]!, coords[last]!);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (maxDistance > toleranceSq) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return coords.filter((_, i) => keep[i]);
+}
+
+/**
+ * Replace vertices between two short edges by the midpoints of these edges,
+ * which turns pixel staircases into the straight lines they approximate.
+ */
+export function smoothLine(coords: Coords, maxStep: number): Coords {
+  const short = (a: number[], b: number[]) => Math.hypot(b[0]! - a[0]!, b[1]! - a[1]!) <= maxStep;
+  const midpoint = (a: number[], b: number[]) => [(a[0]! + b[0]!) / 2, (a[1]! + b[1]!) / 2];
+  const result: Coords = [coords[0]!];
+  for (let i = 1; i < coords.length - 1; i++) {
+    const [prev, current, next] = [coords[i - 1]!, coords[i]!, coords[i + 1]!];
+    if (short(prev, current) && short(current, next)) {
+      const before = midpoint(prev, current);
+      if (coordKey(result[result.length - 1]!) !== coordKey(before)) {
+        result.push(before);
+      }
+      result.push(midpoint(current, next));
+    } else {
+      result.push(current);
+    }
+  }
+  result.push(coords[coords.length - 1]!);
+  return result;
+}
+
+export function cleanLine(coords: Coords, tolerance: number, maxStep: number | undefined): Coords {
+  const smoothed = maxStep ? smoothLine(coords, maxStep) : coords;
+  return simplifyLine(smoothed, tolerance);
+}
+
+/**
+ * Clean a ring that has no vertices shared with other fields. It is split at
+ * its first vertex and the vertex farthest from it, so both ends of the two
+ * halves stay in place.
+ */
+export function cleanClosedRing(
+  ring: Coords,
+  tolerance: number,
+  maxStep: number | undefined,
+): Coords {
+  const open = ring.slice(0, -1);
+  let farthest = 0;
+  let maxDistance = 0;
+  open.forEach((c, i) => {
+    const distance = (c[0]! - open[0]![0]!) ** 2 + (c[1]! - open[0]![1]!) ** 2;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      farthest = i;
+    }
+  });
+  if (farthest === 0) return ring;
+  const first = cleanLine(open.slice(0, farthest + 1), tolerance, maxStep);
+  const second = cleanLine([...open.slice(farthest), open[0]!], tolerance, maxStep);
+  return [...first, ...second.slice(1)];
+}
+
+/**
+ * Square a nearly rectangular ring: edges are aligned with the ring's main
+ * axes, and consecutive edges along the same axis are merged. Returns
+ * undefined if the ring has edges too far off the main axes.
+ */
+export function orthogonalizeRing(ring: Coords): Coords | undefined {
+  const open = ring.slice(0, -1);
+  const n = open.length;
+  if (n < 4) return undefined;
+
+  // Main axis direction from length-weighted edge angles, modulo 90°
+  let sumCos = 0;
+  let sumSin = 0;
+  const angles: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const [a, b] = [open[i]!, open[(i + 1) % n]!];
+    const angle = Math.atan2(b[1]! - a[1]!, b[0]! - a[0]!);
+    const length = Math.hypot(b[0]! - a[0]!, b[1]! - a[1]!);
+    angles.push(angle);
+    sumCos += Math.cos(4 * angle) * length;
+    sumSin += Math.sin(4 * angle) * length;
+  }
+  const axis = Math.atan2(sumSin, sumCos) / 4;
+  const threshold = (ORTHOGONAL_THRESHOLD * Math.PI) / 180;
+  for (const angle of angles) {
+    const offset = (((angle - axis) % (Math.PI / 2)) + Math.PI / 2) % (Math.PI / 2);
+    if (Math.min(offset, Math.PI / 2 - offset) > threshold) return undefined;
+  }
+
+  // Rotate so the main axes are x and y
+  const [cx, cy] = open[0]! as [number, number];
+  const cos = Math.cos(-axis);
+  const sin = Math.sin(-axis);
+  const rotated = open.map(([x, y]) => [
+    (x! - cx) * cos - (y! - cy) * sin,
+    (x! - cx) * sin + (y! - cy) * cos,
+  ]);
+
+  // Group consecutive edges by orientation, starting at an orientation change
+  const horizontal = rotated.map((a, i) => {
+    const b = rotated[(i + 1) % n]!;
+    return Math.abs(b[0]! - a[0]!) >= Math.abs(b[1]! - a[1]!);
+  });
+  const start = horizontal.findIndex((h, i) => h !== horizontal[(i + n - 1) % n]);
+  if (start === -1) return undefined;
+  const groups: { horizontal: boolean; value: number }[] = [];
+  let sum = 0;
+  let count = 0;
+  for (let k = 0; k < n; k++) {
+    const i = (start + k) % n;
+    const h = horizontal[i]!;
+    const axisIndex = h ? 1 : 0;
+    sum += rotated[i]![axisIndex]! + rotated[(i + 1) % n]![axisIndex]!;
+    count += 2;
+    if (horizontal[(i + 1) % n] !== h || k === n - 1) {
+      groups.push({ horizontal: h, value: sum / count });
+      sum = count = 0;
+    }
+  }
+  if (groups.length < 4) return undefined;
+
+  // Corners are the intersections of consecutive edges
+  const corners = groups.map((group, i) => {
+    const next = groups[(i + 1) % groups.length]!;
+    const [x, y] = group.horizontal ? [next.value, group.value] : [group.value, next.value];
+    return [x * cos + y * sin + cx, -x * sin + y * cos + cy];
+  });
+  return [...corners, corners[0]!];
+}
+
+function ringArea(ring: Coords) {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i]![0]! * ring[i + 1]![1]! - ring[i + 1]![0]! * ring[i]![1]!;
+  }
+  return sum / 2;
+}
+
+/**
+ * Whether a polygon can replace a field: all rings are closed, have an area
+ * and no boundary segments cross.
+ */
+export function isValidPolygon(polygon: Coords[]) {
+  return (
+    polygon.every(
+      (ring) =>
+        ring.length >= 4 &&
+        coordKey(ring[0]!) === coordKey(ring[ring.length - 1]!) &&
+        ringArea(ring) !== 0,
+    ) && !findSelfIntersection(polygon)
+  );
+}
@@ -0,0 +1,166 @@
+import type polygonClipping from 'polygon-clipping';
+
+type MultiPolygon = polygonClipping.MultiPolygon;
+
+/**
+ * Operations of the geometry worker. Coordinates are in EPSG:4326, as written
+ * by the GeoJSON format.
+ */
+export interface GeometryOperations {
+  /** Cut polygons along a line into the parts on either side */
+  splitByLine: { input: { polygons: MultiPolygon; line: number[][] }; output: MultiPolygon };
+  /** Cut polygons into the parts inside and outside a shape */
+  splitByShape: { input: { polygons: MultiPolygon; shape: MultiPolygon }; output: MultiPolygon };
+  /** Subtract a shape from each feature; features it does not overlap give undefined */
+  cut: {
+    input: { features: MultiPolygon[]; shape: MultiPolygon };
+    output: (MultiPolygon | undefined)[];
+  };
+  merge: { input: { features: MultiPolygon[] }; output: MultiPolygon };
+  /** Clip each feature to a grid cell; features outside the cell give no polygons */
+  clip: { input: { features: MultiPolygon[]; cell: MultiPolygon }; output: MultiPolygon[] };
+}
+
+export type GeometryOperation = keyof GeometryOperations;
+
+export interface GeometryRequest<O extends GeometryOperation = GeometryOperation> {
+  id: number;
+  operation: O;
+  input: GeometryOperations[O]['input'];
+}
+
+export type GeometryResponse =
+  | { id: number; type: 'progress'; done: number; total: number }
+  | { id: number; type: 'result'; output: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export interface GeometryRunOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export class GeometryCancelledError extends Error {
+  constructor(message = 'Geometry operation cancelled') {
+    super(message);
+    this.name = 'GeometryCancelledError';
+  }
+}
+
+export class GeometryEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeometryEngineError';
+  }
+}
+
+/** The parts of a Web Worker the engine uses */
+export interface GeometryWorker {
+  postMessage(request: GeometryRequest): void;
+  terminate(): void;
+  addEventListener(type: 'message', listener: (event: { data: GeometryResponse }) => void): void;
+  addEventListener(type: 'error', listener: (event: { message?: string }) => void): void;
+}
+
+export interface GeometryEngine {
+  run<O extends GeometryOperation>(
+    operation: O,
+    input: GeometryOperations[O]['input'],
+    options?: GeometryRunOptions,
+  ): Promise<GeometryOperations[O]['output']>;
+}
+
+interface Job {
+  request: GeometryRequest;
+  options: GeometryRunOptions;
+  resolve: (output: never) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs geometry operations one at a time in a worker. A running operation
+ * cannot be interrupted inside polygon-clipping, so cancelling it terminates
+ * the worker, and the next operation starts a fresh one.
+ */
+export function createGeometryEngine(createWorker: () => GeometryWorker): GeometryEngine {
+  const queue: Job[] = [];
+  const abortHandlers = new globalThis.Map<Job, () => void>();
+  let worker: GeometryWorker | undefined;
+  let current: Job | undefined;
+  let nextId = 1;
+
+  function finish(job: Job) {
+    job.options.signal?.removeEventListener('abort', abortHandlers.get(job)!);
+    abortHandlers.delete(job);
+    if (current === job) {
+      current = undefined;
+      startNext();
+    }
+  }
+
+  function handleMessage({ data }: { data: GeometryResponse }) {
+    const job = current;
+    if (!job || data.id !== job.request.id) return;
+    if (data.type === 'progress') {
+      job.options.onProgress?.(data.done, data.total);
+      return;
+    }
+    finish(job);
+    if (data.type === 'result') job.resolve(data.output as never);
+    else job.reject(new GeometryEngineError(data.message));
+  }
+
+  function handleError(event: { message?: string }) {
+    const job = current;
+    worker?.terminate();
+    worker = undefined;
+    if (!job) return;
+    finish(job);
+    job.reject(new GeometryEngineError(event.message || 'Geometry worker failed'));
+  }
+
+  function startNext() {
+    const job = queue.shift();
+    if (!job) return;
+    if (!worker) {
+      worker = createWorker();
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', handleError);
+    }
+    current = job;
+    worker.postMessage(job.request);
+  }
+
+  function abort(job: Job) {
+    if (current === job) {
+      worker?.terminate();
+      worker = undefined;
+    } else {
+      queue.splice(queue.indexOf(job), 1);
+    }
+    finish(job);
+    job.reject(new GeometryCancelledError());
+  }
+
+  function run<O extends GeometryOperation>(
+    operation: O,
+    input: GeometryOperations[O]['input'],
+    options: GeometryRunOptions = {},
+  ) {
+    if (options.signal?.aborted) return Promise.reject(new GeometryCancelledError());
+    return new Promise<GeometryOperations[O]['output']>((resolve, reject) => {
+      const job: Job = {
+        request: { id: nextId++, operation, input },
+        options,
+        resolve: resolve as (output: never) => void,
+        reject,
+      };
+      const onAbort = () => abort(job);
+      abortHandlers.set(job, onAbort);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(job);
+      if (!current) startNext();
+    });
+  }
+
+  return { run };
+}
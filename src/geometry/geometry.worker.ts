@@ -0,0 +1,53 @@
+import {
+  clipToCell,
+  cutByShape,
+  mergePolygons,
+  splitByLine,
+  splitByShape,
+  type ProgressCallback,
+} from './polygons';
+import type {
+  GeometryOperation,
+  GeometryOperations,
+  GeometryRequest,
+  GeometryResponse,
+} from './engine';
+
+type Operations = {
+  [O in GeometryOperation]: (
+    input: GeometryOperations[O]['input'],
+    progress: ProgressCallback,
+  ) => GeometryOperations[O]['output'];
+};
+
+/** Minimum time between progress reports, in milliseconds */
+const PROGRESS_INTERVAL = 100;
+
+const operations: Operations = {
+  splitByLine: ({ polygons, line }) => splitByLine(polygons, line),
+  splitByShape: ({ polygons, shape }) => splitByShape(polygons, shape),
+  cut: ({ features, shape }, progress) => cutByShape(features, shape, progress),
+  merge: ({ features }, progress) => mergePolygons(features, progress),
+  clip: ({ features, cell }, progress) => clipToCell(features, cell, progress),
+};
+
+function respond(response: GeometryResponse) {
+  self.postMessage(response);
+}
+
+self.addEventListener('message', ({ data }: MessageEvent<GeometryRequest>) => {
+  const { id, operation, input } = data;
+  let lastProgress = 0;
+  const progress: ProgressCallback = (done, total) => {
+    const now = Date.now();
+    if (now - lastProgress < PROGRESS_INTERVAL) return;
+    lastProgress = now;
+    respond({ id, type: 'progress', done, total });
+  };
+  try {
+    const run = operations[operation] as Operations[GeometryOperation];
+    respond({ id, type: 'result', output: run(input as never, progress) });
+  } catch (error) {
+    respond({ id, type: 'error', message: (error as Error).message });
+  }
+});
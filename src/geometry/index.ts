@@ -0,0 +1,39 @@
+export {
+  createGeometryEngine,
+  GeometryCancelledError,
+  GeometryEngineError,
+  type GeometryEngine,
+  type GeometryOperation,
+  type GeometryOperations,
+  type GeometryRunOptions,
+  type GeometryWorker,
+} from './engine';
+export {
+  cleanClosedRing,
+  cleanLine,
+  coordKey,
+  isValidPolygon,
+  orthogonalizeRing,
+  simplifyLine,
+  smoothLine,
+  type Coords,
+} from './cleanup';
+export { compareFields, type FieldChange, type FieldComparison } from './changes';
+export {
+  bufferLine,
+  clipToCell,
+  cutByShape,
+  findSelfIntersection,
+  locateOnRing,
+  mergePolygons,
+  pathLength,
+  reshapeRing,
+  ringSection,
+  segmentCrossings,
+  snapPolygonsToLine,
+  snapToLine,
+  splitByLine,
+  splitByShape,
+  type ProgressCallback,
+  type RingLocation,
+} from './polygons';
@@ -0,0 +1,413 @@
+import polygonClipping from 'polygon-clipping';
+
+/**
+ * Polygon operations behind the editing tools, on plain coordinate arrays as
+ * used by GeoJSON and polygon-clipping. Split, merge and clipping work on
+ * EPSG:4326 coordinates; the ring helpers work in any planar projection.
+ */
+
+type MultiPolygon = polygonClipping.MultiPolygon;
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Split buffer width and snap threshold, in EPSG:4326 degrees
+const SPLIT_BUFFER_DISTANCE = 1e-8;
+const SPLIT_SNAP_THRESHOLD_SQ = (SPLIT_BUFFER_DISTANCE * 3) ** 2;
+/** Fields unioned per step of a merge, between progress reports */
+const MERGE_BATCH_SIZE = 20;
+
+/**
+ * Create a buffer polygon around a line by unioning per-segment rectangles.
+ * Robust against sharp turns (no miter issues) and duplicate vertices.
+ */
+export function bufferLine(
+  lineCoords: number[][],
+  distance: number,
+): polygonClipping.MultiPolygon | undefined {
+  // Remove consecutive duplicate vertices
+  const coords: number[][] = [lineCoords[0]!];
+  for (let i = 1; i < lineCoords.length; i++) {
+    const prev = coords[coords.length - 1]!;
+    const curr = lineCoords[i]!;
+    if (curr[0] !== prev[0] || curr[1] !== prev[1]) {
+      coords.push(curr);
+    }
+  }
+  if (coords.length < 2) return undefined;
+
+  // Create a rectangle for each segment
+  const rectangles: polygonClipping.Polygon[] = [];
+  for (let i = 0; i < coords.length - 1; i++) {
+    const x1 = coords[i]![0]!;
+    const y1 = coords[i]![1]!;
+    const x2 = coords[i + 1]![0]!;
+    const y2 = coords[i + 1]![1]!;
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const len = Math.sqrt(dx * dx + dy * dy);
+    if (len === 0) continue;
+    const nx = (-dy / len) * distance;
+    const ny = (dx / len) * distance;
+    // Extend the rectangle by half the buffer width along the segment direction
+    const ex = (dx / len) * distance;
+    const ey = (dy / len) * distance;
+    const rect: polygonClipping.Polygon = [
+      [
+        [x1 - ex + nx, y1 - ey + ny],
+        [x2 + ex + nx, y2 + ey + ny],
+        [x2 + ex - nx, y2 + ey - ny],
+        [x1 - ex - nx, y1 - ey - ny],
+        [x1 - ex + nx, y1 - ey + ny],
+      ],
+    ];
+    rectangles.push(rect);
+  }
+
+  if (rectangles.length === 0) return undefined;
+  if (rectangles.length === 1) return [rectangles[0]!];
+  return polygonClipping.union(rectangles[0]!, ...rectangles.slice(1));
+}
+
+/**
+ * Snap a point to the nearest position on a polyline if within threshold.
+ * Modifies the point in place so that vertices on both sides of the split
+ * gap collapse to the exact same coordinates on the split line.
+ */
+export function snapToLine(point: number[], lineCoords: number[][], thresholdSq: number): void {
+  let minDistSq = Infinity;
+  let closestX = 0;
+  let closestY = 0;
+
+  for (let i = 0; i < lineCoords.length - 1; i++) {
+    const x1 = lineCoords[i]![0]!;
+    const y1 = lineCoords[i]![1]!;
+    const x2 = lineCoords[i + 1]![0]!;
+    const y2 = lineCoords[i + 1]![1]!;
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lenSq = dx * dx + dy * dy;
+    const t =
+      lenSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((point[0]! - x1) * dx + (point[1]! - y1) * dy) / lenSq));
+    const px = x1 + t * dx;
+    const py = y1 + t * dy;
+    const distSq = (point[0]! - px) ** 2 + (point[1]! - py) ** 2;
+    if (distSq < minDistSq) {
+      minDistSq = distSq;
+      closestX = px;
+      closestY = py;
+    }
+  }
+
+  if (minDistSq <= thresholdSq) {
+    point[0] = closestX;
+    point[1] = closestY;
+  }
+}
+
+/**
+ * Snap vertices near the split line back onto it to collapse the buffer gap, so
+ * result polygons share exact boundary vertices along the split. Rings that
+ * collapse to fewer than 4 vertices are dropped.
+ */
+export function snapPolygonsToLine(
+  polygons: polygonClipping.MultiPolygon,
+  lineCoords: number[][],
+  thresholdSq: number,
+) {
+  for (const poly of polygons) {
+    for (let r = poly.length - 1; r >= 0; r--) {
+      const ring = poly[r]!;
+      for (const point of ring) {
+        snapToLine(point, lineCoords, thresholdSq);
+      }
+      // Remove consecutive duplicate vertices
+      for (let c = ring.length - 1; c > 0; c--) {
+        if (ring[c]![0] === ring[c - 1]![0] && ring[c]![1] === ring[c - 1]![1]) {
+          ring.splice(c, 1);
+        }
+      }
+      if (ring.length < 4) {
+        poly.splice(r, 1);
+      }
+    }
+  }
+  return polygons.filter((poly) => poly.length > 0);
+}
+
+/**
+ * Cut polygons along a line into the parts on either side. Parts share the
+ * exact vertices along the line. A line that does not cross the polygons
+ * leaves them as they are, as a single part each.
+ */
+export function splitByLine(polygons: MultiPolygon, line: number[][]): MultiPolygon {
+  // Create a thin buffer polygon around the line
+  const bufferPoly = bufferLine(line, SPLIT_BUFFER_DISTANCE);
+  if (!bufferPoly) return [];
+  const result = polygonClipping.difference(polygons, bufferPoly);
+  return snapPolygonsToLine(result, line, SPLIT_SNAP_THRESHOLD_SQ);
+}
+
+/**
+ * Cut polygons into the parts inside and outside a shape. Returns no parts if
+ * the polygons are entirely inside or outside of it.
+ */
+export function splitByShape(polygons: MultiPolygon, shape: MultiPolygon): MultiPolygon {
+  const inside = polygonClipping.intersection(polygons, shape);
+  const outside = polygonClipping.difference(polygons, shape);
+  if (inside.length === 0 || outside.length === 0) return [];
+  // Snap both sides onto the drawn outline so they share exact vertices
+  return snapPolygonsToLine([...inside, ...outside], shape[0]![0]!, SPLIT_SNAP_THRESHOLD_SQ);
+}
+
+/**
+ * Subtract a shape from each feature. Features the shape does not overlap give
+ * undefined, so they can be left as they are; features entirely inside it give
+ * no polygons.
+ */
+export function cutByShape(
+  features: MultiPolygon[],
+  shape: MultiPolygon,
+  progress?: ProgressCallback,
+): (MultiPolygon | undefined)[] {
+  return features.map((polygons, index) => {
+    progress?.(index, features.length);
+    if (polygons.length === 0 || polygonClipping.intersection(polygons, shape).length === 0) {
+      return undefined;
+    }
+    return polygonClipping.difference(polygons, shape);
+  });
+}
+
+/**
+ * Union features into one. Features that do not touch stay separate polygons.
+ */
+export function mergePolygons(features: MultiPolygon[], progress?: ProgressCallback) {
+  let result = features[0] ?? [];
+  for (let i = 1; i < features.length; i += MERGE_BATCH_SIZE) {
+    result = polygonClipping.union(result, ...features.slice(i, i + MERGE_BATCH_SIZE));
+    progress?.(Math.min(i + MERGE_BATCH_SIZE, features.length), features.length);
+  }
+  return result;
+}
+
+/**
+ * Clip each feature to a grid cell. Features outside the cell give no polygons,
+ * features crossing it may give several.
+ */
+export function clipToCell(
+  features: MultiPolygon[],
+  cell: MultiPolygon,
+  progress?: ProgressCallback,
+): MultiPolygon[] {
+  return features.map((polygons, index) => {
+    progress?.(index, features.length);
+    return polygons.length > 0 ? polygonClipping.intersection(polygons, cell) : [];
+  });
+}
+
+/**
+ * Parameters (0..1) along segment a-b where it crosses the rings of a polygon.
+ */
+export function segmentCrossings(a: number[], b: number[], polygons: polygonClipping.MultiPolygon) {
+  const result: number[] = [];
+  const dx = b[0]! - a[0]!;
+  const dy = b[1]! - a[1]!;
+  for (const poly of polygons) {
+    for (const ring of poly) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const c = ring[i]!;
+        const ex = ring[i + 1]![0]! - c[0]!;
+        const ey = ring[i + 1]![1]! - c[1]!;
+        const denominator = dx * ey - dy * ex;
+        if (denominator === 0) continue;
+        const t = ((c[0]! - a[0]!) * ey - (c[1]! - a[1]!) * ex) / denominator;
+        const u = ((c[0]! - a[0]!) * dy - (c[1]! - a[1]!) * dx) / denominator;
+        if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
+          result.push(t);
+        }
+      }
+    }
+  }
+  return result;
+}
+
+export interface RingLocation {
+  /** Index of the ring segment the point lies on */
+  index: number;
+  /** Position along that segment, 0..1 */
+  t: number;
+  distanceSq: number;
+  point: number[];
+}
+
+export function locateOnRing(point: number[], ring: number[][]): RingLocation {
+  let best: RingLocation = { index: 0, t: 0, distanceSq: Infinity, point };
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = ring[i]! as [number, number];
+    const [x2, y2] = ring[i + 1]! as [number, number];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lenSq = dx * dx + dy * dy;
+    const t =
+      lenSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((point[0]! - x1) * dx + (point[1]! - y1) * dy) / lenSq));
+    const px = x1 + t * dx;
+    const py = y1 + t * dy;
+    const distanceSq = (point[0]! - px) ** 2 + (point[1]! - py) ** 2;
+    if (distanceSq < best.distanceSq) {
+      best = { index: i, t, distanceSq, point: [px, py] };
+    }
+  }
+  return best;
+}
+
+/**
+ * Ring vertices strictly between two locations, walking forward along the
+ * ring (a closed ring, first vertex repeated at the end).
+ */
+export function ringSection(ring: number[][], from: RingLocation, to: RingLocation): number[][] {
+  const n = ring.length - 1;
+  const result: number[][] = [];
+  if (from.index === to.index && from.t <= to.t) return result;
+  for (let i = (from.index + 1) % n; ; i = (i + 1) % n) {
+    result.push(ring[i]!);
+    if (i === to.index) break;
+  }
+  return result;
+}
+
+export function pathLength(coords: number[][]) {
+  let length = 0;
+  for (let i = 0; i < coords.length - 1; i++) {
+    length += Math.hypot(coords[i + 1]![0]! - coords[i]![0]!, coords[i + 1]![1]! - coords[i]![1]!);
+  }
+  return length;
+}
+
+/**
+ * Replace the section of a ring between the start and end of a line with the
+ * line. The line splits the ring into two sections; the shorter one is
+ * replaced, unless that gives an empty polygon, in which case the other one
+ * is. Results are normalized with polygon-clipping, which also resolves
+ * self-intersections. Returns undefined if neither option leaves a polygon.
+ */
+export function reshapeRing(
+  polygons: MultiPolygon,
+  polygonIndex: number,
+  ringIndex: number,
+  lineCoords: number[][],
+  from: RingLocation,
+  to: RingLocation,
+): MultiPolygon | undefined {
+  const ring = polygons[polygonIndex]![ringIndex]!;
+  const line = [from.point, ...lineCoords.slice(1, -1), to.point];
+  const forward = ringSection(ring, from, to);
+  const backward = ringSection(ring, to, from);
+  const options: { ring: number[][]; replacedLength: number }[] = [
+    {
+      ring: [...line, ...backward, from.point],
+      replacedLength: pathLength([from.point, ...forward, to.point]),
+    },
+    {
+      ring: [...line, ...forward.slice().reverse(), from.point],
+      replacedLength: pathLength([to.point, ...backward, from.point]),
+    },
+  ];
+  options.sort((a, b) => a.replacedLength - b.replacedLength);
+
+  for (const option of options) {
+    const polygon = polygons[polygonIndex]!.slice() as polygonClipping.Polygon;
+    polygon[ringIndex] = option.ring as polygonClipping.Ring;
+    const rings: polygonClipping.Polygon = ringIndex === 0 ? polygon : [polygon[0]!];
+    let result = polygonClipping.union(rings);
+    if (ringIndex > 0) {
+      // A reshaped hole is subtracted from the outer ring with the other holes
+      result = polygonClipping.difference(result, ...polygon.slice(1).map((r) => [r]));
+    }
+    if (result.length === 0) continue;
+    return [...polygons.slice(0, polygonIndex), ...result, ...polygons.slice(polygonIndex + 1)];
+  }
+  return undefined;
+}
+
+function orientation(a: number[], b: number[], c: number[]) {
+  const value = (b[0]! - a[0]!) * (c[1]! - a[1]!) - (b[1]! - a[1]!) * (c[0]! - a[0]!);
+  return Math.sign(value);
+}
+
+/** Whether `p`, collinear with `a` and `b`, lies on the segment between them */
+function onSegment(p: number[], a: number[], b: number[]) {
+  return (
+    p[0]! >= Math.min(a[0]!, b[0]!) &&
+    p[0]! <= Math.max(a[0]!, b[0]!) &&
+    p[1]! >= Math.min(a[1]!, b[1]!) &&
+    p[1]! <= Math.max(a[1]!, b[1]!)
+  );
+}
+
+/**
+ * Find a point where a polygon is not simple, using a sweep over the segments
+ * sorted by their minimum x. Segments adjacent in the same ring share a vertex
+ * by construction and are skipped. Other segments of the same ring may not
+ * touch at all, while segments of different rings may touch at single points,
+ * e.g. a hole touching the outer ring at a vertex, but not cross or overlap.
+ */
+export function findSelfIntersection(polygon: number[][][]): number[] | undefined {
+  const segments: { a: number[]; b: number[]; ring: number; index: number; minX: number }[] = [];
+  polygon.forEach((ring, r) => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const a = ring[i]!;
+      const b = ring[i + 1]!;
+      segments.push({ a, b, ring: r, index: i, minX: Math.min(a[0]!, b[0]!) });
+    }
+  });
+  segments.sort((s1, s2) => s1.minX - s2.minX);
+
+  for (let i = 0; i < segments.length; i++) {
+    const s1 = segments[i]!;
+    const maxX = Math.max(s1.a[0]!, s1.b[0]!);
+    const ringLength = polygon[s1.ring]!.length - 1;
+    for (let j = i + 1; j < segments.length && segments[j]!.minX <= maxX; j++) {
+      const s2 = segments[j]!;
+      if (s1.ring === s2.ring) {
+        const diff = Math.abs(s1.index - s2.index);
+        if (diff === 1 || diff === ringLength - 1) continue;
+      }
+      if (
+        Math.max(s1.a[1]!, s1.b[1]!) < Math.min(s2.a[1]!, s2.b[1]!) ||
+        Math.max(s2.a[1]!, s2.b[1]!) < Math.min(s1.a[1]!, s1.b[1]!)
+      ) {
+        continue;
+      }
+      const o1 = orientation(s1.a, s1.b, s2.a);
+      const o2 = orientation(s1.a, s1.b, s2.b);
+      const o3 = orientation(s2.a, s2.b, s1.a);
+      const o4 = orientation(s2.a, s2.b, s1.b);
+      if (o1 * o2 < 0 && o3 * o4 < 0) {
+        const dx1 = s1.b[0]! - s1.a[0]!;
+        const dy1 = s1.b[1]! - s1.a[1]!;
+        const dx2 = s2.b[0]! - s2.a[0]!;
+        const dy2 = s2.b[1]! - s2.a[1]!;
+        const denominator = dx1 * dy2 - dy1 * dx2;
+        const t =
+          denominator === 0
+            ? 0
+            : ((s2.a[0]! - s1.a[0]!) * dy2 - (s2.a[1]! - s1.a[1]!) * dx2) / denominator;
+        return [s1.a[0]! + t * dx1, s1.a[1]! + t * dy1];
+      }
+      // Endpoints lying on the other segment
+      const touches = [
+        ...[s2.a, s2.b].filter((p, k) => [o1, o2][k] === 0 && onSegment(p, s1.a, s1.b)),
+        ...[s1.a, s1.b].filter((p, k) => [o3, o4][k] === 0 && onSegment(p, s2.a, s2.b)),
+      ];
+      if (touches.length === 0) continue;
+      const [touch] = touches;
+      const overlaps = touches.some((p) => p[0] !== touch![0] || p[1] !== touch![1]);
+      if (s1.ring === s2.ring || overlaps) return touch;
+    }
+  }
+  return undefined;
+}
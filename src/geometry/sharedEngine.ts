@@ -0,0 +1,6 @@
+import { createGeometryEngine } from './engine';
+
+/** Geometry engine of the app; the worker starts with the first operation */
+export const geometryEngine = createGeometryEngine(
+  () => new Worker(new URL('./geometry.worker.ts', import.meta.url), { type: 'module' }),
+);
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getCenter, getHeight, getWidth } from 'ol/extent';
+import { toLonLat } from 'ol/proj';
+import { gridCellExtent } from '@/grid';
+
+describe('gridCellExtent', () => {
+  it('computes the extent of a 2×2 km cell', () => {
+    const extent = gridCellExtent('ftw-33UUU9117')!;
+    // Web Mercator stretches distances by 1 / cos(latitude)
+    const scale = Math.cos((toLonLat(getCenter(extent))[1]! * Math.PI) / 180);
+
+    // The UTM square is slightly rotated against the map
+    for (const size of [getWidth(extent), getHeight(extent)]) {
+      expect(size * scale).toBeGreaterThan(1900);
+      expect(size * scale).toBeLessThan(2100);
+    }
+  });
+
+  it.each(['ftw-33UUU91', 'ftw-33UUU911', 'ftw-33UUU911700', 'ftw-33UUU'])(
+    'rejects %s, which does not have 4 digits',
+    (id) => {
+      expect(gridCellExtent(id)).toBeUndefined();
+    },
+  );
+});
@@ -0,0 +1,89 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { forward } from 'mgrs';
+import { FileSource } from 'pmtiles';
+import { boundingExtent, getCenter } from 'ol/extent';
+import { fromLonLat, toLonLat } from 'ol/proj';
+import {
+  createMgrsGridProvider,
+  createPMTilesGridProvider,
+  GridGeometryError,
+  mgrsCellsInExtent,
+} from '@/grid';
+
+/** Two neighbouring cells of the FTW grid, ftw-33UUU9117 and ftw-33UUU9317 */
+const fixture = readFileSync(new URL('./fixtures/ftw-grid.pmtiles', import.meta.url));
+
+describe('createMgrsGridProvider', () => {
+  const provider = createMgrsGridProvider();
+
+  it.each([
+    [13.405, 52.52],
+    [-58.38, -34.6],
+    [151.21, -33.87],
+    [-122.42, 37.77],
+    [36.82, -1.29],
+  ])('names the cell at %f, %f after its south west square', async (lon, lat) => {
+    const id = (await provider.cellIdAt(fromLonLat([lon, lat])))!;
+    const cell = await provider.cellFeature(id);
+    const [swLon, swLat] = toLonLat(cell.getGeometry()!.getFirstCoordinate());
+
+    expect(id).toBe(`ftw-${forward([swLon! + 0.001, swLat! + 0.001], 2)}`);
+    expect(cell.getGeometry()!.intersectsCoordinate(fromLonLat([lon, lat]))).toBe(true);
+  });
+
+  it('computes 2×2 km cells', async () => {
+    const cell = await provider.cellFeature('ftw-33UUU9117');
+    const corners = cell.getGeometry()!.getCoordinates()[0]!.slice(0, 4);
+    const center = getCenter(boundingExtent(corners));
+    // Corners moved slightly towards the center, to stay clear of the 100 m lines
+    const squares = corners.map((corner) => {
+      const [lon, lat] = toLonLat(corner.map((v, i) => v + (center[i]! - v) * 0.01));
+      return forward([lon!, lat!], 3);
+    });
+
+    expect(squares).toEqual(['33UUU910170', '33UUU929170', '33UUU929189', '33UUU910189']);
+    expect(provider.cellExtent('ftw-33UUU9117')).toEqual(cell.getGeometry()!.getExtent());
+  });
+
+  it('rejects IDs that are not aligned with the grid', async () => {
+    expect(provider.cellExtent('ftw-33UUU9016')).toBeUndefined();
+    await expect(provider.cellFeature('ftw-33UUU9016')).rejects.toThrow(GridGeometryError);
+  });
+
+  it('matches the cells of the FTW grid', async () => {
+    const grid = createPMTilesGridProvider({
+      name: 'Fixture',
+      source: new FileSource(new File([fixture], 'ftw-grid.pmtiles')),
+      layer: 'ftw_grid4',
+    });
+
+    for (const id of ['ftw-33UUU9117', 'ftw-33UUU9317']) {
+      const expected = (await grid.cellFeature(id)).getGeometry()!;
+      const cell = (await provider.cellFeature(id)).getGeometry()!;
+
+      expect(await provider.cellIdAt(getCenter(expected.getExtent()))).toBe(id);
+      for (const corner of cell.getCoordinates()[0]!) {
+        const [x, y] = expected.getClosestPoint(corner);
+        expect(Math.hypot(x! - corner[0]!, y! - corner[1]!)).toBeLessThan(1);
+      }
+    }
+  });
+
+  it('clips cells to their UTM zone', () => {
+    const extent = boundingExtent([fromLonLat([17.98, 52.5]), fromLonLat([18.02, 52.52])]);
+    const cells = mgrsCellsInExtent(extent);
+    const zones = new Set(cells.map((cell) => cell.get('id').match(/^ftw-(\d+)/)[1]));
+
+    expect(zones).toEqual(new Set(['33', '34']));
+    for (const cell of cells) {
+      const lons = cell
+        .getGeometry()!
+        .getCoordinates()[0]!
+        .map((coordinate) => toLonLat(coordinate)[0]!);
+      const zone = cell.get('id').startsWith('ftw-33') ? 33 : 34;
+      expect(Math.min(...lons)).toBeGreaterThanOrEqual(zone === 33 ? 12 : 18 - 1e-9);
+      expect(Math.max(...lons)).toBeLessThanOrEqual(zone === 33 ? 18 + 1e-9 : 24);
+    }
+  });
+});
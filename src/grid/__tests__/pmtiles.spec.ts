@@ -0,0 +1,81 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import { FileSource, type Source } from 'pmtiles';
+import { getBottomLeft, getCenter, getTopRight } from 'ol/extent';
+import { createPMTilesGridProvider, gridCellExtent, GridGeometryError } from '@/grid';
+
+/** Two neighbouring cells, ftw-33UUU9117 and ftw-33UUU9317, as z14 vector tiles */
+const fixture = readFileSync(new URL('./fixtures/ftw-grid.pmtiles', import.meta.url));
+
+function fixtureSource(): Source {
+  return new FileSource(new File([fixture], 'ftw-grid.pmtiles'));
+}
+
+function createFixtureProvider(source = fixtureSource()) {
+  return createPMTilesGridProvider({ name: 'Fixture', source, layer: 'ftw_grid4' });
+}
+
+describe('createPMTilesGridProvider', () => {
+  it('stitches the cell polygon from all tiles', async () => {
+    const provider = createFixtureProvider();
+    const feature = await provider.cellFeature('ftw-33UUU9117');
+    const geometry = feature.getGeometry()!;
+    const extent = gridCellExtent('ftw-33UUU9117')!;
+
+    expect(feature.get('id')).toBe('ftw-33UUU9117');
+    expect(geometry.getLinearRingCount()).toBe(1);
+    // The extent is spanned by the south west and north east corners of the cell
+    for (const corner of [getBottomLeft(extent), getTopRight(extent)]) {
+      const [x, y] = geometry.getClosestPoint(corner);
+      expect(Math.hypot(x! - corner[0]!, y! - corner[1]!)).toBeLessThan(1);
+    }
+    expect(geometry.intersectsCoordinate(getCenter(extent))).toBe(true);
+  });
+
+  it('caches cells by ID', async () => {
+    const source = fixtureSource();
+    const getBytes = vi.spyOn(source, 'getBytes');
+    const provider = createFixtureProvider(source);
+
+    const first = await provider.cellFeature('ftw-33UUU9117');
+    const reads = getBytes.mock.calls.length;
+    const second = await provider.cellFeature('ftw-33UUU9117');
+
+    expect(getBytes.mock.calls.length).toBe(reads);
+    expect(second).not.toBe(first);
+    expect(second.getGeometry()!.getCoordinates()).toEqual(first.getGeometry()!.getCoordinates());
+  });
+
+  it('finds the cell at a coordinate', async () => {
+    const provider = createFixtureProvider();
+    const center = getCenter(gridCellExtent('ftw-33UUU9317')!);
+
+    expect(await provider.cellIdAt(center)).toBe('ftw-33UUU9317');
+  });
+
+  it('reports cells missing from the archive', async () => {
+    const provider = createFixtureProvider();
+    const cell = provider.cellFeature('ftw-33UUU9517');
+
+    await expect(cell).rejects.toThrow(GridGeometryError);
+    await expect(cell).rejects.toThrow('Grid cell ftw-33UUU9517 not found in the grid archive');
+  });
+
+  it('reports malformed cell IDs', async () => {
+    const provider = createFixtureProvider();
+
+    await expect(provider.cellFeature('33UUU')).rejects.toThrow('Malformed grid cell ID');
+  });
+
+  it('reports unreadable archives and retries them', async () => {
+    const source = fixtureSource();
+    const getBytes = vi.spyOn(source, 'getBytes').mockRejectedValueOnce(new Error('offline'));
+    const provider = createFixtureProvider(source);
+
+    await expect(provider.cellFeature('ftw-33UUU9117')).rejects.toThrow(
+      'Could not read the grid archive: offline',
+    );
+    getBytes.mockRestore();
+    await expect(provider.cellFeature('ftw-33UUU9117')).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,26 @@
+import { inverse } from 'mgrs';
+import { boundingExtent } from 'ol/extent';
+import { fromLonLat } from 'ol/proj';
+
+/**
+ * Compute the projected extent of a 2×2 km grid cell from its MGRS ID, which
+ * always has 1 km precision (4 digits). Uses simple easting/northing offset to
+ * find the NE 1km cell, then takes the SW corner of the SW cell and NE corner
+ * of the NE cell.
+ */
+export function gridCellExtent(gridCellId: string) {
+  const mgrs = gridCellId.replace(/^ftw-/, '');
+  const match = mgrs.match(/^(\d{1,2}[A-Z][A-Z]{2})(\d{4})$/);
+  if (!match) return undefined;
+  const prefix = match[1]!;
+  const digits = match[2]!;
+  const half = digits.length / 2;
+  const easting = parseInt(digits.slice(0, half), 10);
+  const northing = parseInt(digits.slice(half), 10);
+  const pad = (n: number) => n.toString().padStart(half, '0');
+  const swBbox = inverse(prefix + pad(easting) + pad(northing));
+  const neBbox = inverse(prefix + pad(easting + 1) + pad(northing + 1));
+  const ll: [number, number] = [swBbox[0], swBbox[1]];
+  const ur: [number, number] = [neBbox[2], neBbox[3]];
+  return boundingExtent([fromLonLat(ll), fromLonLat(ur)]);
+}
@@ -0,0 +1,46 @@
+import type { Feature } from 'ol';
+import type { Polygon } from 'ol/geom';
+import type { Coordinate } from 'ol/coordinate';
+import type { Extent } from 'ol/extent';
+import type VectorLayer from 'ol/layer/Vector';
+import type VectorTileLayer from 'ol/layer/VectorTile';
+import type polygonClipping from 'polygon-clipping';
+
+export class GridGeometryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GridGeometryError';
+  }
+}
+
+/**
+ * Source of the grid cells and their geometry, in EPSG:3857.
+ */
+export interface GridProvider {
+  name: string;
+  /**
+   * Layer that shows the grid, with the cell ID in the `id` property of its
+   * features. Providers without a layer use the grid layer of the map style.
+   */
+  layer?: VectorLayer | VectorTileLayer;
+  /** Extent of a grid cell, if known without loading its geometry */
+  cellExtent(gridCellId: string): Extent | undefined;
+  /** The grid cell polygon */
+  cellFeature(gridCellId: string): Promise<Feature<Polygon>>;
+  /** ID of the grid cell containing a coordinate */
+  cellIdAt(coordinate: Coordinate): Promise<string | undefined>;
+  /** Whether the layer only shows the cells around the view center, until zoomed in */
+  isPartial?(): boolean;
+}
+
+function ringArea(ring: polygonClipping.Ring) {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j]![0] - ring[i]![0]) * (ring[j]![1] + ring[i]![1]);
+  }
+  return Math.abs(area / 2);
+}
+
+export function polygonArea(polygon: polygonClipping.Polygon) {
+  return polygon.reduce((area, ring, i) => area + (i ? -1 : 1) * ringArea(ring), 0);
+}
@@ -0,0 +1,56 @@
+import type { FeatureCollection } from 'geojson';
+import { Feature } from 'ol';
+import { MultiPolygon, Polygon } from 'ol/geom';
+import type { Coordinate } from 'ol/coordinate';
+import GeoJSON from 'ol/format/GeoJSON';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { GridGeometryError, type GridProvider } from './common';
+
+/**
+ * Grid cells from a GeoJSON feature collection in EPSG:4326, identified by
+ * their `id` property or feature ID.
+ */
+export function createGeoJSONGridProvider(name: string, geojson: FeatureCollection): GridProvider {
+  const source = new VectorSource<Feature>();
+  const features = new GeoJSON().readFeatures(geojson, { featureProjection: 'EPSG:3857' });
+  for (const feature of features) {
+    const id = feature.get('id') ?? feature.getId();
+    const geometry = feature.getGeometry();
+    if (id === undefined || !(geometry instanceof Polygon || geometry instanceof MultiPolygon)) {
+      continue;
+    }
+    feature.set('id', String(id));
+    feature.setId(String(id));
+    source.addFeature(feature);
+  }
+  if (source.isEmpty()) {
+    throw new GridGeometryError(`No grid cell polygons with an id found in ${name}`);
+  }
+
+  async function cellFeature(gridCellId: string) {
+    const feature = source.getFeatureById(gridCellId);
+    if (!feature) {
+      throw new GridGeometryError(`Grid cell ${gridCellId} not found in ${name}`);
+    }
+    let geometry = feature.getGeometry()!;
+    if (geometry instanceof MultiPolygon) {
+      geometry = geometry
+        .getPolygons()
+        .reduce((largest, polygon) => (polygon.getArea() > largest.getArea() ? polygon : largest));
+    }
+    return new Feature({ geometry: (geometry as Polygon).clone(), id: gridCellId });
+  }
+
+  async function cellIdAt(coordinate: Coordinate) {
+    return source.getFeaturesAtCoordinate(coordinate)[0]?.get('id') as string | undefined;
+  }
+
+  return {
+    name,
+    layer: new VectorLayer({ source }),
+    cellExtent: (gridCellId) => source.getFeatureById(gridCellId)?.getGeometry()?.getExtent(),
+    cellFeature,
+    cellIdAt,
+  };
+}
@@ -0,0 +1,56 @@
+import { FileSource } from 'pmtiles';
+import type { FeatureCollection } from 'geojson';
+import { GridGeometryError, type GridProvider } from './common';
+import { createGeoJSONGridProvider } from './geojson';
+import { createPMTilesGridProvider } from './pmtiles';
+
+export { gridCellExtent } from './cells';
+export { GridGeometryError, type GridProvider } from './common';
+export { createGeoJSONGridProvider } from './geojson';
+export { createMgrsGridProvider, mgrsCellsInExtent } from './mgrs';
+export { createPMTilesGridProvider, type PMTilesGridOptions } from './pmtiles';
+
+const PMTILES_MAGIC = 'PMTiles';
+
+/** File name extensions of local grids */
+export const GRID_FILE_TYPES = ['.pmtiles', '.geojson', '.json'];
+
+async function isPMTiles(file: File) {
+  const header = await file.slice(0, PMTILES_MAGIC.length).text();
+  return header === PMTILES_MAGIC;
+}
+
+/**
+ * Grid from a local file or a self-hosted URL, either a PMTiles archive with
+ * the cells in a vector tile `layer` or a GeoJSON feature collection.
+ */
+export async function createLocalGridProvider(
+  source: File | string,
+  layer: string,
+): Promise<GridProvider> {
+  const name = typeof source === 'string' ? source.split('/').pop()! : source.name;
+  const pmtiles =
+    typeof source === 'string' ? /\.pmtiles(\?.*)?$/i.test(source) : await isPMTiles(source);
+  if (pmtiles) {
+    return createPMTilesGridProvider({
+      name,
+      source: typeof source === 'string' ? source : new FileSource(source),
+      layer,
+      showLayer: true,
+    });
+  }
+
+  let geojson: FeatureCollection;
+  try {
+    if (typeof source === 'string') {
+      const response = await fetch(source);
+      if (!response.ok) throw new Error(response.statusText);
+      geojson = (await response.json()) as FeatureCollection;
+    } else {
+      geojson = JSON.parse(await source.text());
+    }
+  } catch {
+    throw new GridGeometryError(`Could not read grid ${name}, expected PMTiles or GeoJSON`);
+  }
+  return createGeoJSONGridProvider(name, geojson);
+}
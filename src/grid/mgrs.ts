@@ -0,0 +1,304 @@
+import proj4 from 'proj4';
+import { inverse } from 'mgrs';
+import { Feature } from 'ol';
+import { Polygon } from 'ol/geom';
+import { buffer, getCenter, getHeight, getWidth, intersects, type Extent } from 'ol/extent';
+import type { Coordinate } from 'ol/coordinate';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { fromLonLat, toLonLat, transformExtent } from 'ol/proj';
+import polygonClipping from 'polygon-clipping';
+import { projectionDefinition } from '@/importers';
+import { GridGeometryError, polygonArea, type GridProvider } from './common';
+
+/** South west corner of a grid cell in its UTM zone */
+interface UtmCell {
+  zone: number;
+  south: boolean;
+  easting: number;
+  northing: number;
+}
+
+/** Cell size in UTM meters */
+const CELL_SIZE = 2000;
+/** Cells start at odd kilometers, e.g. ftw-33UUU9117 spans 91 to 93 km east */
+const CELL_OFFSET = 1000;
+/** Latitude range of UTM and MGRS */
+const MIN_LAT = -80;
+const MAX_LAT = 84;
+/** Thousands of cells per view below this zoom level */
+const MIN_ZOOM = 9.5;
+/** Upper limit of cells generated at once, to keep the map responsive */
+const MAX_CELLS = 50000;
+/** Points per edge when finding the UTM range of a view */
+const EDGE_SAMPLES = 8;
+const BAND_LETTERS = 'CDEFGHJKLMNPQRSTUVWX';
+const COLUMN_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+const converters = new globalThis.Map<number, proj4.Converter>();
+
+/** Converter from UTM (`forward`) to EPSG:4326 (`inverse`) */
+function utmConverter(zone: number, south: boolean) {
+  const epsg = (south ? 32700 : 32600) + zone;
+  let converter = converters.get(epsg);
+  if (!converter) {
+    converter = proj4(projectionDefinition({ epsg })!, 'EPSG:4326');
+    converters.set(epsg, converter);
+  }
+  return converter;
+}
+
+/** South or west edge of the cells containing a UTM easting or northing */
+function cellStart(value: number) {
+  return Math.floor((value - CELL_OFFSET) / CELL_SIZE) * CELL_SIZE + CELL_OFFSET;
+}
+
+function zoneAt(lon: number) {
+  return Math.min(Math.floor((lon + 180) / 6) + 1, 60);
+}
+
+function zoneBounds(zone: number): [number, number] {
+  return [-180 + (zone - 1) * 6, -180 + zone * 6];
+}
+
+/**
+ * FTW grid cell ID, the MGRS reference of the south west 1 km square of the
+ * cell. Standard 6° zones are used, without the exceptions around Norway and
+ * Svalbard.
+ */
+function cellId({ zone, south, easting, northing }: UtmCell) {
+  const [, lat] = utmConverter(zone, south).forward([easting + 500, northing + 500]);
+  const band = BAND_LETTERS[Math.min(Math.max(Math.floor((lat! + 80) / 8), 0), 19)];
+  const column = COLUMN_LETTERS[((zone - 1) % 3) * 8 + Math.floor(easting / 100000) - 1];
+  const row = ROW_LETTERS[(Math.floor(northing / 100000) + (zone % 2 ? 0 : 5)) % 20];
+  const digits = (value: number) =>
+    Math.floor((value % 100000) / 1000)
+      .toString()
+      .padStart(2, '0');
+  return `ftw-${zone}${band}${column}${row}${digits(easting)}${digits(northing)}`;
+}
+
+function parseCellId(gridCellId: string): UtmCell | undefined {
+  const mgrs = gridCellId.replace(/^ftw-/, '');
+  const match = mgrs.match(/^(\d{1,2})([C-HJ-NP-X])[A-HJ-NP-Z]{2}\d{4}$/);
+  if (!match) return undefined;
+  const zone = parseInt(match[1]!, 10);
+  const south = match[2]! < 'N';
+  let square;
+  try {
+    square = inverse(mgrs);
+  } catch {
+    return undefined;
+  }
+  const [easting, northing] = utmConverter(zone, south).inverse([
+    (square[0] + square[2]) / 2,
+    (square[1] + square[3]) / 2,
+  ]);
+  const cell = {
+    zone,
+    south,
+    easting: Math.floor(easting! / 1000) * 1000,
+    northing: Math.floor(northing! / 1000) * 1000,
+  };
+  if (cellStart(cell.easting) !== cell.easting || cellStart(cell.northing) !== cell.northing) {
+    return undefined;
+  }
+  return cellId(cell) === `ftw-${mgrs}` ? cell : undefined;
+}
+
+/**
+ * Cell polygon in EPSG:3857, clipped to the UTM zone.
+ */
+function cellPolygon(cell: UtmCell) {
+  const { zone, south, easting, northing } = cell;
+  const converter = utmConverter(zone, south);
+  const ring = [
+    [easting, northing],
+    [easting + CELL_SIZE, northing],
+    [easting + CELL_SIZE, northing + CELL_SIZE],
+    [easting, northing + CELL_SIZE],
+  ].map((corner) => converter.forward(corner) as [number, number]);
+  ring.push(ring[0]!);
+
+  let polygon: polygonClipping.Polygon | undefined = [ring];
+  const [west, east] = zoneBounds(zone);
+  if (ring.some(([lon]) => lon < west || lon > east)) {
+    const strip: polygonClipping.Ring = [
+      [west, MIN_LAT],
+      [east, MIN_LAT],
+      [east, MAX_LAT],
+      [west, MAX_LAT],
+      [west, MIN_LAT],
+    ];
+    polygon = polygonClipping
+      .intersection([ring], [strip])
+      .sort((a, b) => polygonArea(b) - polygonArea(a))[0];
+  }
+  if (!polygon) return undefined;
+  return new Polygon(polygon.map((r) => r.map((coordinate) => fromLonLat(coordinate))));
+}
+
+function cellFeatureFromUtm(cell: UtmCell) {
+  const geometry = cellPolygon(cell);
+  if (!geometry) return undefined;
+  const id = cellId(cell);
+  const feature = new Feature({ geometry, id });
+  feature.setId(id);
+  return feature;
+}
+
+/**
+ * Generate the cells of a UTM zone and hemisphere within a longitude and
+ * latitude range.
+ */
+function zoneCells(
+  zone: number,
+  south: boolean,
+  [minLon, minLat, maxLon, maxLat]: Extent,
+  features: Feature<Polygon>[],
+) {
+  const converter = utmConverter(zone, south);
+  // UTM lines are curved in EPSG:4326, so sample the edges of the range
+  const eastings: number[] = [];
+  const northings: number[] = [];
+  for (let i = 0; i <= EDGE_SAMPLES; ++i) {
+    const lon = minLon! + ((maxLon! - minLon!) * i) / EDGE_SAMPLES;
+    const lat = minLat! + ((maxLat! - minLat!) * i) / EDGE_SAMPLES;
+    for (const point of [
+      [lon, minLat!],
+      [lon, maxLat!],
+      [minLon!, lat],
+      [maxLon!, lat],
+    ]) {
+      const [easting, northing] = converter.inverse(point);
+      eastings.push(easting!);
+      northings.push(northing!);
+    }
+  }
+  const minEasting = cellStart(Math.min(...eastings));
+  const minNorthing = cellStart(Math.min(...northings));
+  const maxEasting = Math.max(...eastings);
+  const maxNorthing = Math.max(...northings);
+  const count =
+    Math.ceil((maxEasting - minEasting) / CELL_SIZE) *
+    Math.ceil((maxNorthing - minNorthing) / CELL_SIZE);
+  // Views are limited beforehand, this only guards against direct calls
+  if (features.length + count > MAX_CELLS) return;
+
+  for (let easting = minEasting; easting < maxEasting; easting += CELL_SIZE) {
+    for (let northing = minNorthing; northing < maxNorthing; northing += CELL_SIZE) {
+      const feature = cellFeatureFromUtm({ zone, south, easting, northing });
+      if (feature) features.push(feature);
+    }
+  }
+}
+
+/**
+ * Narrow an extent in EPSG:3857 around its center, so it holds at most about
+ * MAX_CELLS cells. Returns the extent itself if it is small enough.
+ */
+function limitExtent(extent: Extent) {
+  // Web Mercator stretches distances by 1 / cos(latitude)
+  const scale = Math.cos((toLonLat(getCenter(extent))[1]! * Math.PI) / 180);
+  const count = (getWidth(extent) * scale * getHeight(extent) * scale) / CELL_SIZE ** 2;
+  if (count <= MAX_CELLS) return extent;
+  // Some room for the cells along the edges
+  const factor = Math.sqrt(MAX_CELLS / count) * 0.9;
+  const [x, y] = getCenter(extent) as [number, number];
+  const halfWidth = (getWidth(extent) * factor) / 2;
+  const halfHeight = (getHeight(extent) * factor) / 2;
+  return [x - halfWidth, y - halfHeight, x + halfWidth, y + halfHeight];
+}
+
+/**
+ * All cells intersecting an extent in EPSG:3857.
+ */
+export function mgrsCellsInExtent(extent: Extent) {
+  const [minLon, minLat, maxLon, maxLat] = transformExtent(extent, 'EPSG:3857', 'EPSG:4326');
+  const west = Math.max(minLon!, -180);
+  const east = Math.min(maxLon!, 180);
+  const south = Math.max(minLat!, MIN_LAT);
+  const north = Math.min(maxLat!, MAX_LAT);
+  const features: Feature<Polygon>[] = [];
+  if (west >= east || south >= north) return features;
+
+  for (let zone = zoneAt(west); zone <= zoneAt(east); ++zone) {
+    const [zoneWest, zoneEast] = zoneBounds(zone);
+    const lonRange = [Math.max(west, zoneWest), Math.min(east, zoneEast)] as const;
+    if (south < 0) {
+      zoneCells(zone, true, [lonRange[0], south, lonRange[1], Math.min(north, 0)], features);
+    }
+    if (north > 0) {
+      zoneCells(zone, false, [lonRange[0], Math.max(south, 0), lonRange[1], north], features);
+    }
+  }
+  return features;
+}
+
+/**
+ * FTW 2×2 km grid cells computed from MGRS, for use without network access.
+ * Cells follow the UTM grid of their zone and are clipped to the zone.
+ */
+export function createMgrsGridProvider(): GridProvider {
+  let partial = false;
+  let loadedExtent: Extent | undefined;
+  const source = new VectorSource<Feature<Polygon>>({
+    // Views with too many cells only get the cells around their center
+    strategy: (extent) => {
+      const limited = limitExtent(extent);
+      partial = limited !== extent;
+      return [limited];
+    },
+    // Features with known IDs are skipped when adding them again
+    loader: (extent, resolution, projection, success) => {
+      // Only keep the cells of the view, so panning around does not pile them up
+      if (loadedExtent) source.removeLoadedExtent(loadedExtent);
+      loadedExtent = extent;
+      const area = buffer(extent, CELL_SIZE * 2);
+      source.removeFeatures(
+        source.getFeatures().filter((f) => !intersects(f.getGeometry()!.getExtent(), area)),
+      );
+      const features = mgrsCellsInExtent(extent);
+      source.addFeatures(features);
+      success?.(features);
+    },
+  });
+
+  function cellExtent(gridCellId: string) {
+    const cell = parseCellId(gridCellId);
+    return cell && cellPolygon(cell)?.getExtent();
+  }
+
+  async function cellFeature(gridCellId: string) {
+    const cell = parseCellId(gridCellId);
+    const feature = cell && cellFeatureFromUtm(cell);
+    if (!feature) {
+      throw new GridGeometryError(`${gridCellId} is not a cell of the 2×2 km MGRS grid`);
+    }
+    return feature;
+  }
+
+  async function cellIdAt(coordinate: Coordinate) {
+    const [lon, lat] = toLonLat(coordinate) as [number, number];
+    if (lat < MIN_LAT || lat > MAX_LAT) return undefined;
+    const zone = zoneAt(lon);
+    const south = lat < 0;
+    const [easting, northing] = utmConverter(zone, south).inverse([lon, lat]);
+    return cellId({
+      zone,
+      south,
+      easting: cellStart(easting!),
+      northing: cellStart(northing!),
+    });
+  }
+
+  return {
+    name: 'MGRS 2×2 km (offline)',
+    layer: new VectorLayer({ source, minZoom: MIN_ZOOM }),
+    cellExtent,
+    cellFeature,
+    cellIdAt,
+    isPartial: () => partial,
+  };
+}
@@ -0,0 +1,203 @@
+import { PMTiles, TileType, type Header, type Source } from 'pmtiles';
+import { Feature } from 'ol';
+import MVT from 'ol/format/MVT';
+import { MultiPolygon, Polygon } from 'ol/geom';
+import { createXYZ } from 'ol/tilegrid';
+import { buffer, type Extent } from 'ol/extent';
+import type { Coordinate } from 'ol/coordinate';
+import VectorTileLayer from 'ol/layer/VectorTile';
+import VectorTileSource from 'ol/source/VectorTile';
+import type VectorTile from 'ol/VectorTile';
+import type RenderFeature from 'ol/render/Feature';
+import TileState from 'ol/TileState';
+import polygonClipping from 'polygon-clipping';
+import { gridCellExtent } from './cells';
+import { GridGeometryError, polygonArea, type GridProvider } from './common';
+
+export interface PMTilesGridOptions {
+  name: string;
+  /** URL of the PMTiles archive, or a pmtiles `Source` for local archives */
+  source: string | Source;
+  /** Name of the vector tile layer with the grid cells */
+  layer: string;
+  /** Show the grid from the archive, instead of the grid layer of the map style */
+  showLayer?: boolean;
+}
+
+/**
+ * The computed cell extent is axis-aligned in EPSG:3857, but cells follow the
+ * UTM grid, so their corners can stick out by the grid convergence.
+ */
+const EXTENT_BUFFER = 500;
+/** Parts smaller than this share of the cell are rounding artefacts at tile edges */
+const SLIVER_RATIO = 0.01;
+
+const tileGrid = createXYZ();
+
+/**
+ * Grid cells read from the vector tiles of a PMTiles archive. Cell polygons
+ * are stitched from all tiles at the highest zoom level.
+ */
+export function createPMTilesGridProvider({
+  name,
+  source,
+  layer,
+  showLayer,
+}: PMTilesGridOptions): GridProvider {
+  let archive = new PMTiles(source);
+  const format = new MVT<Feature>({ featureClass: Feature, layers: [layer] });
+  const cells = new globalThis.Map<string, Promise<Feature<Polygon>>>();
+  const extents = new globalThis.Map<string, Extent>();
+  let header: Promise<Header> | undefined;
+
+  async function loadHeader() {
+    let result: Header;
+    try {
+      result = await archive.getHeader();
+    } catch (error) {
+      throw new GridGeometryError(`Could not read the grid archive: ${(error as Error).message}`);
+    }
+    if (result.tileType !== TileType.Mvt) {
+      throw new GridGeometryError('The grid archive does not contain vector tiles');
+    }
+    return result;
+  }
+
+  function getHeader() {
+    if (!header) {
+      header = loadHeader();
+      // PMTiles caches failed requests, so retry with a fresh reader
+      header.catch(() => {
+        header = undefined;
+        archive = new PMTiles(source);
+      });
+    }
+    return header;
+  }
+
+  async function readTile(z: number, x: number, y: number) {
+    let tile;
+    try {
+      tile = await archive.getZxy(z, x, y);
+    } catch (error) {
+      throw new GridGeometryError(
+        `Could not load grid tile ${z}/${x}/${y}: ${(error as Error).message}`,
+      );
+    }
+    if (!tile) return [];
+    return format.readFeatures(tile.data, {
+      extent: tileGrid.getTileCoordExtent([z, x, y]),
+      featureProjection: 'EPSG:3857',
+    });
+  }
+
+  async function loadCell(gridCellId: string) {
+    const extent = gridCellExtent(gridCellId);
+    if (!extent) {
+      throw new GridGeometryError(`Malformed grid cell ID ${gridCellId}`);
+    }
+    const { maxZoom } = await getHeader();
+    const range = tileGrid.getTileRangeForExtentAndZ(buffer(extent, EXTENT_BUFFER), maxZoom);
+    const tiles: Promise<Feature[]>[] = [];
+    for (let x = range.minX; x <= range.maxX; ++x) {
+      for (let y = range.minY; y <= range.maxY; ++y) {
+        tiles.push(readTile(maxZoom, x, y));
+      }
+    }
+
+    // Tiles clip the cell at their edges, so collect all fragments
+    const fragments: polygonClipping.Polygon[] = [];
+    for (const features of await Promise.all(tiles)) {
+      for (const feature of features) {
+        if (feature.get('id') !== gridCellId) continue;
+        const geometry = feature.getGeometry();
+        if (geometry instanceof Polygon) {
+          fragments.push(geometry.getCoordinates() as polygonClipping.Polygon);
+        } else if (geometry instanceof MultiPolygon) {
+          fragments.push(...(geometry.getCoordinates() as polygonClipping.Polygon[]));
+        }
+      }
+    }
+    if (fragments.length === 0) {
+      throw new GridGeometryError(`Grid cell ${gridCellId} not found in the grid archive`);
+    }
+
+    const [polygon, ...rest] = polygonClipping
+      .union(fragments[0]!, ...fragments.slice(1))
+      .map((part) => ({ part, area: polygonArea(part) }))
+      .sort((a, b) => b.area - a.area);
+    if (!polygon || rest.some(({ area }) => area > polygon.area * SLIVER_RATIO)) {
+      throw new GridGeometryError(`Grid cell ${gridCellId} is not a single polygon`);
+    }
+    const geometry = new Polygon(polygon.part);
+    extents.set(gridCellId, geometry.getExtent());
+    return new Feature({ geometry, id: gridCellId });
+  }
+
+  async function cellFeature(gridCellId: string) {
+    let cell = cells.get(gridCellId);
+    if (!cell) {
+      cell = loadCell(gridCellId);
+      cells.set(gridCellId, cell);
+      cell.catch(() => cells.delete(gridCellId));
+    }
+    // Callers may add the feature to a source, so hand out copies
+    return (await cell).clone();
+  }
+
+  async function cellIdAt(coordinate: Coordinate): Promise<string | undefined> {
+    const { maxZoom } = await getHeader();
+    const [, x, y] = tileGrid.getTileCoordForCoordAndZ(coordinate, maxZoom);
+    const features = await readTile(maxZoom, x!, y!);
+    return features
+      .find((feature) => feature.getGeometry()?.intersectsCoordinate(coordinate))
+      ?.get('id');
+  }
+
+  function loadDisplayTile(tile: VectorTile<RenderFeature>, url: string, displayFormat: MVT) {
+    const [z, x, y] = url.split('/').map(Number) as [number, number, number];
+    tile.setLoader((extent, resolution, projection) => {
+      archive
+        .getZxy(z, x, y)
+        .then((response) => {
+          tile.setFeatures(
+            response
+              ? displayFormat.readFeatures(response.data, { extent, featureProjection: projection })
+              : [],
+          );
+        })
+        .catch(() => tile.setState(TileState.ERROR));
+    });
+  }
+
+  function createLayer() {
+    const displayFormat = new MVT({ layers: [layer], idProperty: 'id' });
+    const gridLayer = new VectorTileLayer();
+    // The tile grid needs the zoom levels of the archive; errors are reported
+    // when selecting a grid cell
+    getHeader().then(
+      ({ minZoom, maxZoom }) => {
+        gridLayer.setMinZoom(minZoom);
+        gridLayer.setSource(
+          new VectorTileSource({
+            format: displayFormat,
+            tileGrid: createXYZ({ minZoom, maxZoom, tileSize: 512 }),
+            url: '{z}/{x}/{y}',
+            tileLoadFunction: (tile, url) =>
+              loadDisplayTile(tile as VectorTile<RenderFeature>, url, displayFormat),
+          }),
+        );
+      },
+      () => undefined,
+    );
+    return gridLayer;
+  }
+
+  return {
+    name,
+    layer: showLayer ? createLayer() : undefined,
+    cellExtent: (gridCellId) => extents.get(gridCellId) ?? gridCellExtent(gridCellId),
+    cellFeature,
+    cellIdAt,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Feature, FeatureCollection } from 'geojson';
+import { ImportError } from '@/importers/common';
+import { FeatureCollectionParser } from '@/importers/geojsonStream';
+
+function field(id: number, name: string): Feature {
+  return {
+    type: 'Feature',
+    id,
+    properties: { name },
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [13.4, 52.5],
+          [13.41, 52.5],
+          [13.41, 52.51],
+          [13.4, 52.5],
+        ],
+      ],
+    },
+  };
+}
+
+const collection: FeatureCollection & { crs: object } = {
+  type: 'FeatureCollection',
+  crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::32633' } },
+  features: [field(1, 'plain'), field(2, 'with "quotes", {braces} and [brackets]'), field(3, '\\')],
+};
+
+/** Feed text to a parser in chunks of a fixed size */
+function parse(text: string, chunkSize: number) {
+  const parser = new FeatureCollectionParser();
+  const features: Feature[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    features.push(...parser.write(text.slice(i, i + chunkSize)));
+  }
+  const end = parser.end();
+  return { features: [...features, ...end.features], crs: end.crs };
+}
+
+describe('FeatureCollectionParser', () => {
+  it('reads features split across chunks at any position', () => {
+    const text = JSON.stringify(collection, null, 2);
+
+    for (const chunkSize of [1, 7, 64, text.length]) {
+      const { features, crs } = parse(text, chunkSize);
+      expect(features).toEqual(collection.features);
+      expect(crs).toEqual({ epsg: 32633 });
+    }
+  });
+
+  it('returns features as soon as they are complete', () => {
+    const parser = new FeatureCollectionParser();
+    const text = JSON.stringify(collection);
+    const secondStart = text.indexOf('{"type":"Feature","id":2');
+
+    expect(parser.write(text.slice(0, secondStart + 1))).toEqual([collection.features[0]]);
+  });
+
+  it('reads the CRS after the features', () => {
+    const { crs, ...rest } = collection;
+    const text = JSON.stringify({ ...rest, crs });
+
+    expect(parse(text, 16).crs).toEqual({ epsg: 32633 });
+  });
+
+  it('reads a single feature', () => {
+    const feature = field(1, 'single');
+
+    expect(parse(JSON.stringify(feature), 10).features).toEqual([feature]);
+  });
+
+  it('rejects truncated and non-GeoJSON files', () => {
+    const text = JSON.stringify(collection);
+
+    expect(() => parse(text.slice(0, -10), 10)).toThrow(ImportError);
+    expect(() => parse('{"type":"Topology"}', 10)).toThrow(
+      'The file is not a GeoJSON Feature or FeatureCollection',
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { vectorizeMask } from '@/importers/geotiff';
+
+/** Vertices of a closed ring, without the closing one */
+function vertices(ring: number[][]) {
+  return ring.slice(0, -1).map(([x, y]) => `${x},${y}`);
+}
+
+describe('vectorizeMask', () => {
+  it('traces the outer ring and holes of a region', () => {
+    const mask = Uint8Array.from([1, 1, 1, 1, 0, 1, 1, 1, 1]);
+
+    expect(vectorizeMask(mask, 3, 3, 1)).toEqual([
+      {
+        label: 1,
+        rings: [
+          [
+            [0, 0],
+            [3, 0],
+            [3, 3],
+            [0, 3],
+            [0, 0],
+          ],
+          [
+            [2, 1],
+            [1, 1],
+            [1, 2],
+            [2, 2],
+            [2, 1],
+          ],
+        ],
+      },
+    ]);
+  });
+
+  it('turns a diagonal pinch into a hole instead of a ring touching itself', () => {
+    const mask = Uint8Array.from([1, 1, 1, 1, 0, 1, 1, 1, 0]);
+
+    const [region] = vectorizeMask(mask, 3, 3, 1);
+
+    expect(region!.rings).toEqual([
+      [
+        [0, 0],
+        [3, 0],
+        [3, 2],
+        [2, 2],
+        [2, 3],
+        [0, 3],
+        [0, 0],
+      ],
+      [
+        [2, 1],
+        [1, 1],
+        [1, 2],
+        [2, 2],
+        [2, 1],
+      ],
+    ]);
+    for (const ring of region!.rings) {
+      expect(new Set(vertices(ring)).size).toBe(ring.length - 1);
+    }
+  });
+
+  it('keeps diagonal neighbours as separate regions', () => {
+    const regions = vectorizeMask(Uint8Array.from([1, 0, 0, 1]), 2, 2, 1);
+
+    expect(regions.map(({ rings }) => rings.length)).toEqual([1, 1]);
+  });
+
+  it('drops regions smaller than the minimum size', () => {
+    const mask = Uint8Array.from([1, 1, 0, 0, 0, 1]);
+
+    expect(vectorizeMask(mask, 3, 2, 2).map(({ label }) => label)).toEqual([1]);
+  });
+});
@@ -0,0 +1,127 @@
+import proj4 from 'proj4';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+
+/**
+ * Coordinate reference system declared by an imported file. Files either name
+ * an EPSG code or carry a WKT/PROJ definition.
+ */
+export interface DeclaredCrs {
+  epsg?: number;
+  definition?: string;
+}
+
+export interface ImportResult {
+  geojson: FeatureCollection;
+  /** CRS of the coordinates in `geojson`, EPSG:4326 if not set */
+  crs?: DeclaredCrs;
+}
+
+export interface Importer {
+  name: string;
+  /** File name extensions offered in the file picker */
+  accept: string[];
+  /** Detect the format from the first bytes of the file */
+  detect(header: Uint8Array): boolean;
+  read(buffer: ArrayBuffer): Promise<ImportResult>;
+  /**
+   * Read features one at a time from a stream of the file, for formats that
+   * can be read without holding the whole file in memory. Resolves the CRS of
+   * the features once the stream has been read.
+   */
+  stream?(
+    input: ReadableStream<Uint8Array>,
+    onFeature: (feature: Feature) => void,
+  ): Promise<DeclaredCrs | undefined>;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export function startsWith(header: Uint8Array, magic: number[]) {
+  return magic.every((byte, i) => header[i] === byte);
+}
+
+/**
+ * Parse an EPSG code from the CRS names found in GeoJSON, GeoPackage and
+ * FlatGeobuf files, e.g. `EPSG:32633` or `urn:ogc:def:crs:EPSG::32633`.
+ */
+export function parseEpsgCode(name: string | null | undefined): number | undefined {
+  if (!name) return undefined;
+  if (/CRS84$/i.test(name)) return 4326;
+  const match = name.match(/EPSG:+(\d+)$/i);
+  return match ? parseInt(match[1]!, 10) : undefined;
+}
+
+/**
+ * proj4 definition of a declared CRS, if it is known.
+ */
+export function projectionDefinition(crs: DeclaredCrs): string | undefined {
+  if (crs.definition) return crs.definition;
+  const epsg = crs.epsg;
+  if (epsg === undefined) return undefined;
+  // WGS 84 / UTM zones, which most FTW model outputs use
+  if ((epsg > 32600 && epsg <= 32660) || (epsg > 32700 && epsg <= 32760)) {
+    const south = epsg > 32700 ? ' +south' : '';
+    return `+proj=utm +zone=${epsg % 100}${south} +datum=WGS84 +units=m +no_defs`;
+  }
+  return proj4.defs(`EPSG:${epsg}`) ? `EPSG:${epsg}` : undefined;
+}
+
+function transformCoordinates(coordinates: unknown, forward: (c: Position) => Position): unknown {
+  if (typeof (coordinates as Position)[0] === 'number') {
+    return forward(coordinates as Position);
+  }
+  return (coordinates as unknown[]).map((c) => transformCoordinates(c, forward));
+}
+
+/**
+ * Converter between a declared CRS (`forward`) and EPSG:4326 (`inverse`).
+ */
+export function wgs84Converter(crs: DeclaredCrs) {
+  const definition = projectionDefinition(crs);
+  if (!definition) {
+    throw new ImportError(`Unsupported coordinate reference system EPSG:${crs.epsg}`);
+  }
+  return proj4(definition, 'EPSG:4326');
+}
+
+/**
+ * Transform the features of an import result to EPSG:4326.
+ */
+export function reproject(result: ImportResult): FeatureCollection {
+  const { geojson, crs } = result;
+  if (!crs || crs.epsg === 4326) return geojson;
+  const converter = wgs84Converter(crs);
+  const forward = (c: Position) => converter.forward([c[0]!, c[1]!]);
+  return {
+    ...geojson,
+    features: geojson.features.map((feature) => ({
+      ...feature,
+      geometry: feature.geometry && {
+        ...feature.geometry,
+        coordinates: transformCoordinates(
+          (feature.geometry as Exclude<Geometry, { type: 'GeometryCollection' }>).coordinates,
+          forward,
+        ),
+      },
+    })) as Feature[],
+  };
+}
+
+/**
+ * Keep only features with Polygon or MultiPolygon geometries.
+ */
+export function filterPolygons(geojson: FeatureCollection): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: geojson.features.filter(isPolygonFeature),
+  };
+}
+
+export function isPolygonFeature(feature: Feature) {
+  return feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon';
+}
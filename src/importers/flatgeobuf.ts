@@ -0,0 +1,43 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import { startsWith, type DeclaredCrs, type Importer } from './common';
+
+const FGB_MAGIC = [0x66, 0x67, 0x62, 0x03];
+
+async function readFeatures(
+  input: Uint8Array | ReadableStream<Uint8Array>,
+  onFeature: (feature: Feature) => void,
+) {
+  const { deserialize } = await import('flatgeobuf/lib/mjs/geojson.js');
+  let crs: DeclaredCrs | undefined;
+  const iterator = deserialize(input, {
+    headerMetaFn: (header) => {
+      if (header.crs) {
+        crs = {
+          epsg: header.crs.org?.toUpperCase() === 'EPSG' ? header.crs.code : undefined,
+          definition: header.crs.wkt ?? undefined,
+        };
+      }
+    },
+  });
+  for await (const feature of iterator) {
+    onFeature(feature as Feature);
+  }
+  return crs;
+}
+
+export const flatgeobufImporter: Importer = {
+  name: 'FlatGeobuf',
+  accept: ['.fgb'],
+  detect(header) {
+    return startsWith(header, FGB_MAGIC);
+  },
+  async read(buffer) {
+    const features: Feature[] = [];
+    const crs = await readFeatures(new Uint8Array(buffer), (feature) => features.push(feature));
+    const geojson: FeatureCollection = { type: 'FeatureCollection', features };
+    return { geojson, crs };
+  },
+  stream(input, onFeature) {
+    return readFeatures(input, onFeature);
+  },
+};
@@ -0,0 +1,47 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import { ImportError, parseEpsgCode, type Importer } from './common';
+import { FeatureCollectionParser } from './geojsonStream';
+
+const OPENING_BRACE = 0x7b;
+
+export const geojsonImporter: Importer = {
+  name: 'GeoJSON',
+  accept: ['.geojson', '.json', 'application/geo+json', 'application/json'],
+  detect(header) {
+    const first = header.find((byte) => ![0x20, 0x09, 0x0a, 0x0d, 0xef, 0xbb, 0xbf].includes(byte));
+    return first === OPENING_BRACE;
+  },
+  async read(buffer) {
+    let json;
+    try {
+      json = JSON.parse(new TextDecoder().decode(buffer));
+    } catch {
+      throw new ImportError('The file is not valid JSON');
+    }
+    let geojson: FeatureCollection;
+    if (json.type === 'FeatureCollection') {
+      geojson = json;
+    } else if (json.type === 'Feature') {
+      geojson = { type: 'FeatureCollection', features: [json as Feature] };
+    } else {
+      throw new ImportError('The file is not a GeoJSON Feature or FeatureCollection');
+    }
+    // Named CRS from GeoJSON 2008, still written by many tools
+    const epsg = parseEpsgCode(json.crs?.properties?.name);
+    return { geojson, crs: epsg ? { epsg } : undefined };
+  },
+  async stream(input, onFeature) {
+    const parser = new FeatureCollectionParser();
+    const decoder = new TextDecoder();
+    const reader = input.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.write(decoder.decode(value, { stream: true })).forEach(onFeature);
+    }
+    parser.write(decoder.decode()).forEach(onFeature);
+    const { features, crs } = parser.end();
+    features.forEach(onFeature);
+    return crs;
+  },
+};
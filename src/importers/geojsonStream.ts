@@ -0,0 +1,110 @@
+import type { Feature } from 'geojson';
+import { ImportError, parseEpsgCode, type DeclaredCrs } from './common';
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const OPENING_BRACE = 0x7b;
+const CLOSING_BRACE = 0x7d;
+const OPENING_BRACKET = 0x5b;
+const CLOSING_BRACKET = 0x5d;
+
+/** Nesting depth of the objects in the `features` array of a FeatureCollection */
+const FEATURE_DEPTH = 3;
+
+/**
+ * Incremental reader of GeoJSON text, which parses the members of the
+ * `features` array one at a time as their text arrives. Only the feature being
+ * read and the small top-level members are held as text, so files can be read
+ * that are too large to decode into a single string.
+ */
+export class FeatureCollectionParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private inFeatures = false;
+  /** Top-level text read so far, with the `features` array left empty */
+  private head = '';
+  /** Text of a feature that continues in the next chunk */
+  private pending: string | undefined;
+
+  /**
+   * Read the next chunk of text, and return the features completed by it.
+   */
+  write(chunk: string): Feature[] {
+    const features: Feature[] = [];
+    let headStart = this.inFeatures ? -1 : 0;
+    let featureStart = this.pending === undefined ? -1 : 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk.charCodeAt(i);
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === BACKSLASH) {
+          this.escaped = true;
+        } else if (c === QUOTE) {
+          this.inString = false;
+        }
+      } else if (c === QUOTE) {
+        this.inString = true;
+      } else if (c === OPENING_BRACE || c === OPENING_BRACKET) {
+        this.depth++;
+        if (this.inFeatures && this.depth === FEATURE_DEPTH && c === OPENING_BRACE) {
+          featureStart = i;
+        } else if (
+          this.depth === 2 &&
+          c === OPENING_BRACKET &&
+          /"features"\s*:\s*$/.test(this.head + chunk.slice(headStart, i))
+        ) {
+          this.head += chunk.slice(headStart, i + 1);
+          headStart = -1;
+          this.inFeatures = true;
+        }
+      } else if (c === CLOSING_BRACE || c === CLOSING_BRACKET) {
+        if (this.inFeatures && this.depth === FEATURE_DEPTH && featureStart >= 0) {
+          features.push(parseJSON((this.pending ?? '') + chunk.slice(featureStart, i + 1)));
+          this.pending = undefined;
+          featureStart = -1;
+        } else if (this.inFeatures && this.depth === 2) {
+          this.inFeatures = false;
+          headStart = i;
+        }
+        this.depth--;
+      }
+    }
+    if (headStart >= 0) {
+      this.head += chunk.slice(headStart);
+    }
+    if (featureStart >= 0) {
+      this.pending = (this.pending ?? '') + chunk.slice(featureStart);
+    }
+    return features;
+  }
+
+  /**
+   * Finish reading. Returns the feature of a file with a single Feature, and
+   * the CRS named by the file.
+   */
+  end(): { features: Feature[]; crs?: DeclaredCrs } {
+    if (this.depth !== 0 || this.inString) {
+      throw new ImportError('The file is not valid JSON');
+    }
+    const json = parseJSON(this.head);
+    if (json.type === 'Feature') {
+      return { features: [json] };
+    }
+    if (json.type !== 'FeatureCollection') {
+      throw new ImportError('The file is not a GeoJSON Feature or FeatureCollection');
+    }
+    // Named CRS from GeoJSON 2008, still written by many tools
+    const epsg = parseEpsgCode(json.crs?.properties?.name);
+    return { features: [], crs: epsg ? { epsg } : undefined };
+  }
+}
+
+function parseJSON(text: string): ReturnType<typeof JSON.parse> {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ImportError('The file is not valid JSON');
+  }
+}
@@ -0,0 +1,92 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import WKB from 'ol/format/WKB';
+import GeoJSON from 'ol/format/GeoJSON';
+import type { Database } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { ImportError, parseEpsgCode, startsWith, type DeclaredCrs, type Importer } from './common';
+
+const SQLITE_MAGIC = [...'SQLite format 3'].map((c) => c.charCodeAt(0));
+
+const wkb = new WKB();
+const geojsonFormat = new GeoJSON();
+
+/**
+ * Strip the GeoPackage binary header (magic, version, flags, SRS ID and
+ * optional envelope) from a geometry blob and read the WKB that follows.
+ */
+function readGeometry(blob: Uint8Array) {
+  if (blob[0] !== 0x47 || blob[1] !== 0x50) return undefined;
+  const flags = blob[3]!;
+  if (flags & 0x10) return undefined; // empty geometry
+  const envelopeSizes = [0, 32, 48, 48, 64];
+  const envelopeSize = envelopeSizes[(flags >> 1) & 0x07] ?? 0;
+  const geometry = wkb.readGeometry(blob.subarray(8 + envelopeSize));
+  return geojsonFormat.writeGeometryObject(geometry);
+}
+
+function query(db: Database, sql: string, params: (string | number)[] = []) {
+  const statement = db.prepare(sql, params);
+  const rows: Record<string, unknown>[] = [];
+  while (statement.step()) {
+    rows.push(statement.getAsObject());
+  }
+  statement.free();
+  return rows;
+}
+
+export const geopackageImporter: Importer = {
+  name: 'GeoPackage',
+  accept: ['.gpkg', 'application/geopackage+sqlite3'],
+  detect(header) {
+    return startsWith(header, SQLITE_MAGIC);
+  },
+  async read(buffer) {
+    const { default: initSqlJs } = await import('sql.js');
+    const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+    const db = new SQL.Database(new Uint8Array(buffer));
+    try {
+      const layers = query(
+        db,
+        `SELECT c.table_name, g.column_name, s.organization, s.organization_coordsys_id, s.definition
+         FROM gpkg_contents c
+         JOIN gpkg_geometry_columns g ON g.table_name = c.table_name
+         JOIN gpkg_spatial_ref_sys s ON s.srs_id = g.srs_id
+         WHERE c.data_type = 'features'`,
+      );
+      if (layers.length === 0) {
+        throw new ImportError('The GeoPackage has no feature tables');
+      }
+      // Use the first feature table. Model outputs have a single layer.
+      const layer = layers[0]!;
+      const table = String(layer.table_name).replace(/"/g, '""');
+      const geometryColumn = String(layer.column_name);
+      const organization = String(layer.organization ?? '');
+      const crs: DeclaredCrs = {
+        epsg:
+          organization.toUpperCase() === 'EPSG'
+            ? Number(layer.organization_coordsys_id)
+            : parseEpsgCode(organization),
+        definition:
+          layer.definition && layer.definition !== 'undefined'
+            ? String(layer.definition)
+            : undefined,
+      };
+
+      const features: Feature[] = [];
+      for (const row of query(db, `SELECT * FROM "${table}"`)) {
+        const blob = row[geometryColumn];
+        delete row[geometryColumn];
+        const geometry = blob instanceof Uint8Array ? readGeometry(blob) : undefined;
+        if (!geometry) continue;
+        features.push({ type: 'Feature', properties: row, geometry } as Feature);
+      }
+      const geojson: FeatureCollection = { type: 'FeatureCollection', features };
+      return { geojson, crs };
+    } catch (error) {
+      if (error instanceof ImportError) throw error;
+      throw new ImportError(`Could not read the GeoPackage: ${(error as Error).message}`);
+    } finally {
+      db.close();
+    }
+  },
+};
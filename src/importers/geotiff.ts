@@ -0,0 +1,245 @@
+import type { Feature, FeatureCollection, Position } from 'geojson';
+import { ImportError, startsWith, wgs84Converter, type DeclaredCrs } from './common';
+
+export interface VectorizeOptions {
+  /** `threshold` for probability rasters, `class` for classified rasters */
+  method: 'threshold' | 'class';
+  /** Minimum value of field pixels in probability rasters */
+  threshold: number;
+  /** Value of field pixels in classified rasters */
+  classValue: number;
+  /** Regions with fewer pixels are dropped as noise */
+  minPixels: number;
+}
+
+/** Geographic or projected CRS code not in the EPSG registry */
+const USER_DEFINED_CRS = 32767;
+
+export function isGeoTIFF(header: Uint8Array) {
+  return (
+    startsWith(header, [0x49, 0x49, 0x2a, 0x00]) || startsWith(header, [0x4d, 0x4d, 0x00, 0x2a])
+  );
+}
+
+/**
+ * Label 4-connected regions of set pixels. Returns the label of each pixel
+ * (0 for background), and the number of pixels and the pixel bounds
+ * `[minX, minY, maxX, maxY]` per label.
+ */
+function labelRegions(mask: Uint8Array, width: number, height: number) {
+  const labels = new Int32Array(width * height);
+  const sizes = [0];
+  const bounds = [[0, 0, 0, 0]];
+  const stack: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    const label = sizes.length;
+    let size = 0;
+    const box = [width, height, 0, 0];
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % width;
+      const y = Math.floor(i / width);
+      box[0] = Math.min(box[0]!, x);
+      box[1] = Math.min(box[1]!, y);
+      box[2] = Math.max(box[2]!, x);
+      box[3] = Math.max(box[3]!, y);
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i - width,
+        i + width < mask.length ? i + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !labels[n]) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    sizes.push(size);
+    bounds.push(box);
+  }
+  return { labels, sizes, bounds };
+}
+
+/**
+ * Trace the boundary rings of a labelled region in pixel corner coordinates
+ * (x right, y down). Pixel edges are walked clockwise on screen. At corners
+ * where the region only touches itself diagonally, the walk turns away from
+ * the region, so the enclosed background becomes a hole touching the other
+ * rings at that corner instead of a ring touching itself. Every ring is
+ * simple. Collinear vertices are dropped.
+ */
+function traceRegion(
+  labels: Int32Array,
+  width: number,
+  height: number,
+  label: number,
+  [minX, minY, maxX, maxY]: number[],
+) {
+  const inRegion = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+  const vertex = (x: number, y: number) => y * (width + 1) + x;
+
+  // Boundary edges by start vertex
+  const edges = new Map<number, { dx: number; dy: number; used: boolean }[]>();
+  const addEdge = (x: number, y: number, dx: number, dy: number) => {
+    const key = vertex(x, y);
+    if (!edges.has(key)) edges.set(key, []);
+    edges.get(key)!.push({ dx, dy, used: false });
+  };
+  for (let y = minY!; y <= maxY!; y++) {
+    for (let x = minX!; x <= maxX!; x++) {
+      if (!inRegion(x, y)) continue;
+      if (!inRegion(x, y - 1)) addEdge(x, y, 1, 0);
+      if (!inRegion(x + 1, y)) addEdge(x + 1, y, 0, 1);
+      if (!inRegion(x, y + 1)) addEdge(x + 1, y + 1, -1, 0);
+      if (!inRegion(x - 1, y)) addEdge(x, y + 1, 0, -1);
+    }
+  }
+
+  const rings: number[][][] = [];
+  for (const [startKey, outgoing] of edges) {
+    for (const first of outgoing) {
+      if (first.used) continue;
+      first.used = true;
+      let x = startKey % (width + 1);
+      let y = Math.floor(startKey / (width + 1));
+      let { dx, dy } = first;
+      const ring: number[][] = [[x, y]];
+      for (;;) {
+        x += dx;
+        y += dy;
+        const options = edges.get(vertex(x, y))!;
+        // Only pinch corners have two options: turn left, away from the region
+        const next = [
+          [dy, -dx],
+          [dx, dy],
+          [-dy, dx],
+        ]
+          .map(([ox, oy]) => options.find((e) => e.dx === ox && e.dy === oy))
+          .find((e) => e)!;
+        if (next === first) break;
+        next.used = true;
+        if (next.dx !== dx || next.dy !== dy) {
+          ring.push([x, y]);
+        }
+        ({ dx, dy } = next);
+      }
+      ring.push(ring[0]!);
+      rings.push(ring);
+    }
+  }
+  return rings;
+}
+
+function ringArea(ring: number[][]) {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i]![0]! * ring[i + 1]![1]! - ring[i + 1]![0]! * ring[i]![1]!;
+  }
+  return Math.abs(area / 2);
+}
+
+/**
+ * Turn the set pixels of a mask into polygons in pixel corner coordinates,
+ * one per 4-connected region with at least `minPixels` pixels. The first ring
+ * of each polygon is the outer ring, all others are holes.
+ */
+export function vectorizeMask(mask: Uint8Array, width: number, height: number, minPixels: number) {
+  const { labels, sizes, bounds } = labelRegions(mask, width, height);
+  const regions: { label: number; rings: number[][][] }[] = [];
+  for (let label = 1; label < sizes.length; label++) {
+    if (sizes[label]! < minPixels) continue;
+    // The outer ring encloses all holes, so it is the largest
+    const rings = traceRegion(labels, width, height, label, bounds[label]!).sort(
+      (a, b) => ringArea(b) - ringArea(a),
+    );
+    regions.push({ label, rings });
+  }
+  return regions;
+}
+
+/**
+ * Turn the field regions of a prediction GeoTIFF within `bbox` (EPSG:4326)
+ * into polygons. Rings follow pixel edges; staircases can be smoothed with
+ * the geometry cleanup afterwards.
+ */
+export async function vectorizeGeoTIFF(
+  file: File,
+  bbox: number[],
+  options: VectorizeOptions,
+): Promise<FeatureCollection> {
+  const { fromBlob } = await import('geotiff');
+  let image;
+  try {
+    image = await (await fromBlob(file)).getImage();
+  } catch {
+    throw new ImportError(`Could not read GeoTIFF ${file.name}`);
+  }
+
+  const geoKeys = image.getGeoKeys() ?? {};
+  const epsg: number | undefined = geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey;
+  if (!epsg || epsg === USER_DEFINED_CRS) {
+    throw new ImportError(`${file.name} has no EPSG coordinate reference system`);
+  }
+  const crs: DeclaredCrs = { epsg };
+  const converter = epsg === 4326 ? undefined : wgs84Converter(crs);
+  const toRaster = (c: Position) => (converter ? converter.inverse([c[0]!, c[1]!]) : c);
+  const toWgs84 = (c: Position) => (converter ? converter.forward([c[0]!, c[1]!]) : c);
+
+  // Pixel window covering the bounding box
+  const [west, south, east, north] = bbox as [number, number, number, number];
+  const corners = [
+    [west, south],
+    [east, south],
+    [east, north],
+    [west, north],
+  ].map(toRaster);
+  const [originX, originY] = image.getOrigin() as [number, number];
+  const [resX, resY] = image.getResolution() as [number, number];
+  const columns = corners.map((c) => (c[0]! - originX) / resX);
+  const rows = corners.map((c) => (c[1]! - originY) / resY);
+  const left = Math.max(0, Math.floor(Math.min(...columns)));
+  const top = Math.max(0, Math.floor(Math.min(...rows)));
+  const right = Math.min(image.getWidth(), Math.ceil(Math.max(...columns)));
+  const bottom = Math.min(image.getHeight(), Math.ceil(Math.max(...rows)));
+  if (right <= left || bottom <= top) {
+    throw new ImportError(`${file.name} does not cover the selected grid cell`);
+  }
+
+  const width = right - left;
+  const height = bottom - top;
+  const [band] = (await image.readRasters({
+    window: [left, top, right, bottom],
+    samples: [0],
+  })) as unknown as ArrayLike<number>[];
+  const noData = image.getGDALNoData();
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    const value = band![i]!;
+    if (value === noData || Number.isNaN(value)) continue;
+    mask[i] = Number(
+      options.method === 'threshold' ? value >= options.threshold : value === options.classValue,
+    );
+  }
+
+  const toCoordinate = ([x, y]: number[]) =>
+    toWgs84([originX + (left + x!) * resX, originY + (top + y!) * resY]);
+  const features: Feature[] = vectorizeMask(mask, width, height, options.minPixels).map(
+    ({ label, rings }) => ({
+      type: 'Feature',
+      id: `${file.name}-${left}-${top}-${label}`,
+      properties: {},
+      geometry: { type: 'Polygon', coordinates: rings.map((ring) => ring.map(toCoordinate)) },
+    }),
+  );
+  if (features.length === 0) {
+    throw new ImportError(`No field regions found in ${file.name} for the selected grid cell`);
+  }
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,85 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import {
+  filterPolygons,
+  ImportError,
+  isPolygonFeature,
+  reproject,
+  type ImportResult,
+  type Importer,
+} from './common';
+import { geojsonImporter } from './geojson';
+import { shapefileImporter } from './shapefile';
+import { flatgeobufImporter } from './flatgeobuf';
+import { geopackageImporter } from './geopackage';
+
+export { ImportError, projectionDefinition, type Importer } from './common';
+export { isGeoTIFF, vectorizeGeoTIFF, type VectorizeOptions } from './geotiff';
+
+const HEADER_SIZE = 16;
+
+/**
+ * Registered importers, in the order they are tried when detecting the format.
+ */
+export const importers: Importer[] = [
+  flatgeobufImporter,
+  geopackageImporter,
+  shapefileImporter,
+  geojsonImporter,
+];
+
+/** File name extensions of prediction rasters, which are vectorized per grid cell */
+export const RASTER_FILE_TYPES = ['.tif', '.tiff'];
+
+export function acceptedFileTypes() {
+  return [...importers.flatMap((importer) => importer.accept), ...RASTER_FILE_TYPES].join(',');
+}
+
+export async function readFileHeader(file: File) {
+  return new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer());
+}
+
+/**
+ * Read a local file with the importer that recognizes its content, and return
+ * its polygon features in EPSG:4326. Formats that can be streamed are read in
+ * chunks, so that files too large to decode at once can be imported, and only
+ * their polygon features are kept while reading.
+ */
+export async function readFeatureFile(
+  file: File,
+  onProgress?: (fraction: number) => void,
+): Promise<FeatureCollection> {
+  const header = await readFileHeader(file);
+  const importer = importers.find((candidate) => candidate.detect(header));
+  if (!importer) {
+    throw new ImportError(`Unsupported file format: ${file.name}`);
+  }
+  let result: ImportResult;
+  if (importer.stream) {
+    const features: Feature[] = [];
+    const crs = await importer.stream(progressStream(file, onProgress), (feature) => {
+      if (isPolygonFeature(feature)) features.push(feature);
+    });
+    result = { geojson: { type: 'FeatureCollection', features }, crs };
+  } else {
+    const read = await importer.read(await file.arrayBuffer());
+    result = { ...read, geojson: filterPolygons(read.geojson) };
+    onProgress?.(1);
+  }
+  if (result.geojson.features.length === 0) {
+    throw new ImportError(`No polygons found in ${importer.name} file ${file.name}`);
+  }
+  return reproject(result);
+}
+
+function progressStream(file: File, onProgress?: (fraction: number) => void) {
+  let loaded = 0;
+  return file.stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.byteLength;
+        onProgress?.(file.size ? loaded / file.size : 1);
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+}
@@ -0,0 +1,28 @@
+import type { FeatureCollection } from 'geojson';
+import { ImportError, startsWith, type Importer } from './common';
+
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+
+export const shapefileImporter: Importer = {
+  name: 'Shapefile (zipped)',
+  accept: ['.zip', 'application/zip'],
+  detect(header) {
+    return startsWith(header, ZIP_MAGIC);
+  },
+  async read(buffer) {
+    const { parseZip } = await import('shpjs');
+    let result;
+    try {
+      result = await parseZip(buffer);
+    } catch (error) {
+      throw new ImportError(`Could not read the zipped Shapefile: ${(error as Error).message}`);
+    }
+    // Zips with several layers are combined. shpjs reprojects to EPSG:4326 using each .prj.
+    const layers = Array.isArray(result) ? result : [result];
+    const geojson: FeatureCollection = {
+      type: 'FeatureCollection',
+      features: layers.flatMap((layer) => layer.features),
+    };
+    return { geojson };
+  },
+};